@@ -69,6 +69,10 @@ export default async function handler(
             ok: result.ok,
             totalNews: result.totalNews,
             toolsProcessed: result.toolsProcessed,
+            toolsDeferred:
+                result.toolsDeferred.length > 0
+                    ? result.toolsDeferred
+                    : undefined,
             digestGenerated: result.digestGenerated,
             digestFromCache: result.digestFromCache,
             telegramPublished: result.telegramPublished,
@@ -1,26 +1,25 @@
 /**
  * Debug script to test parsers directly
  */
-import {
-    AnthropicParser,
-    OpenAIParser,
-} from "../src/services/parsers/customParsers.js";
+import { findParser } from "../src/services/parsers/index.js";
 
 async function main() {
     console.log("Testing Anthropic Parser...\n");
 
-    const anthropicParser = new AnthropicParser();
+    const anthropicParser = findParser("https://www.anthropic.com/news");
     const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
 
     const tool = { id: "claude", name: "Claude", lang: "en" } as any;
 
     try {
-        const news = await anthropicParser.parse(
+        const { items: news, diagnostics } = await anthropicParser.parse(
             "https://www.anthropic.com/news",
             tool,
             since
         );
-        console.log(`Found ${news.length} news items from Anthropic:\n`);
+        console.log(
+            `Found ${news.length} news items from Anthropic (${diagnostics.status}):\n`
+        );
         news.slice(0, 10).forEach((n, i) => {
             console.log(`${i + 1}. ${n.title}`);
             console.log(`   URL: ${n.url}`);
@@ -36,16 +35,18 @@ async function main() {
     console.log("\n---\n");
     console.log("Testing OpenAI Parser...\n");
 
-    const openaiParser = new OpenAIParser();
+    const openaiParser = findParser("https://openai.com/news");
     const openaiTool = { id: "chatgpt", name: "ChatGPT", lang: "en" } as any;
 
     try {
-        const news = await openaiParser.parse(
+        const { items: news, diagnostics } = await openaiParser.parse(
             "https://openai.com/news",
             openaiTool,
             since
         );
-        console.log(`Found ${news.length} news items from OpenAI:\n`);
+        console.log(
+            `Found ${news.length} news items from OpenAI (${diagnostics.status}):\n`
+        );
         news.slice(0, 10).forEach((n, i) => {
             console.log(`${i + 1}. ${n.title}`);
             console.log(`   URL: ${n.url}`);
@@ -0,0 +1,96 @@
+/**
+ * Review news items held back by the flood guard (quarantined_news_items)
+ *
+ * Items are listed grouped by run; released items are inserted into
+ * news_items like a normal pipeline run, discarded ones are dropped.
+ *
+ * Usage:
+ *   npx tsx scripts/review-quarantine.ts                      # List all quarantined items
+ *   npx tsx scripts/review-quarantine.ts cursor               # Items of one tool
+ *   npx tsx scripts/review-quarantine.ts cursor --release     # Insert them into news_items
+ *   npx tsx scripts/review-quarantine.ts cursor --discard     # Drop them
+ *   npx tsx scripts/review-quarantine.ts --release --ids=3,4  # Only these items
+ */
+
+import { insertNewsItems } from "../src/db/queries/newsItems.js";
+import {
+    deleteQuarantinedItems,
+    getQuarantinedItems,
+} from "../src/db/queries/quarantinedNewsItems.js";
+import type { QuarantinedNewsItem } from "../src/db/types.js";
+
+async function main() {
+    const args = process.argv.slice(2);
+    const release = args.includes("--release");
+    const discard = args.includes("--discard");
+    const toolId = args.find((arg) => !arg.startsWith("--"));
+    const idsArg = args.find((arg) => arg.startsWith("--ids="));
+    const ids = idsArg
+        ? new Set(
+              idsArg
+                  .split("=")[1]
+                  .split(",")
+                  .map((id) => parseInt(id))
+          )
+        : null;
+
+    if (release && discard) {
+        console.error("❌ Use either --release or --discard");
+        process.exit(1);
+    }
+
+    const items = (await getQuarantinedItems(toolId)).filter(
+        (entry) => !ids || ids.has(entry.id)
+    );
+
+    console.log("\n========================================");
+    console.log("🚧 Quarantined News");
+    console.log(`📊 Items: ${items.length}`);
+    console.log("========================================\n");
+
+    if (items.length === 0) {
+        return;
+    }
+
+    const byRun = new Map<string, QuarantinedNewsItem[]>();
+    for (const entry of items) {
+        const key = `${entry.tool_id} ${entry.run_id}`;
+        const runItems = byRun.get(key) ?? [];
+        runItems.push(entry);
+        byRun.set(key, runItems);
+    }
+
+    for (const runItems of byRun.values()) {
+        const first = runItems[0];
+        console.log(
+            `📦 ${first.tool_id} - ${first.created_at.substring(0, 10)}: ${first.reason}`
+        );
+        for (const entry of runItems) {
+            const date = entry.item.published_at?.substring(0, 10) ?? "no date";
+            console.log(`   [${entry.id}] ${entry.item.title} (${date})`);
+            console.log(`        ${entry.item.url}`);
+        }
+        console.log("");
+    }
+
+    if (release) {
+        // Duplicates of already stored items are skipped by the hash
+        const inserted = await insertNewsItems(
+            items.map((entry) => entry.item)
+        );
+        await deleteQuarantinedItems(items.map((entry) => entry.id));
+        console.log(
+            `✅ Released ${items.length} items (${inserted.length} new in news_items)`
+        );
+    } else if (discard) {
+        await deleteQuarantinedItems(items.map((entry) => entry.id));
+        console.log(`🗑️  Discarded ${items.length} items`);
+    } else {
+        console.log("ℹ️  Use --release or --discard to resolve them");
+    }
+}
+
+main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+});
@@ -33,6 +33,173 @@ const migrations = [
             COMMENT ON COLUMN tools.last_parsed_at IS 'When the last parsing was done';
         `,
     },
+    {
+        name: "0005_add_parser_config",
+        sql: `
+            ALTER TABLE tools ADD COLUMN IF NOT EXISTS parser_config JSONB DEFAULT NULL;
+
+            COMMENT ON COLUMN tools.parser_config IS 'Declarative parser config (CSS selectors etc.). NULL means the parser is chosen by news_url';
+        `,
+    },
+    {
+        name: "0006_add_discovered_feed_url",
+        sql: `
+            ALTER TABLE tools ADD COLUMN IF NOT EXISTS feed_url TEXT;
+
+            COMMENT ON COLUMN tools.feed_url IS 'Feed URL discovered on news_url page - preferred over news_url when set';
+        `,
+    },
+    {
+        name: "0007_add_fetch_backend",
+        sql: `
+            ALTER TABLE tools ADD COLUMN IF NOT EXISTS fetch_backend TEXT NOT NULL DEFAULT 'http'
+                CHECK (fetch_backend IN ('http', 'browser'));
+
+            COMMENT ON COLUMN tools.fetch_backend IS 'How news pages are downloaded: http (default) or browser (headless Chromium)';
+        `,
+    },
+    {
+        name: "0008_add_published_at_confidence",
+        sql: `
+            ALTER TABLE news_items ADD COLUMN IF NOT EXISTS published_at_confidence REAL;
+
+            COMMENT ON COLUMN news_items.published_at_confidence IS 'Confidence of published_at: 1 = explicit, lower = inferred (relative date, missing year, URL path)';
+        `,
+    },
+    {
+        name: "0009_add_news_item_metadata",
+        sql: `
+            ALTER TABLE news_items ADD COLUMN IF NOT EXISTS external_id TEXT;
+            ALTER TABLE news_items ADD COLUMN IF NOT EXISTS author TEXT;
+            ALTER TABLE news_items ADD COLUMN IF NOT EXISTS image_url TEXT;
+
+            COMMENT ON COLUMN news_items.external_id IS 'Stable id from the source (RSS guid, Atom id, JSON Feed id); hash is built from it when present';
+            COMMENT ON COLUMN news_items.author IS 'Author from the feed (dc:creator, author)';
+            COMMENT ON COLUMN news_items.image_url IS 'Image from the feed (media:thumbnail, media:content, image enclosure)';
+        `,
+    },
+    {
+        name: "0010_add_source_fetch_runs",
+        sql: `
+            CREATE TABLE IF NOT EXISTS source_fetch_runs (
+                id BIGSERIAL PRIMARY KEY,
+                run_id TEXT NOT NULL,
+                tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+                parser TEXT,
+                status TEXT NOT NULL,
+                http_status INT,
+                duration_ms INT NOT NULL,
+                item_count INT NOT NULL DEFAULT 0,
+                new_item_count INT NOT NULL DEFAULT 0,
+                error TEXT,
+                started_at TIMESTAMPTZ NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_source_fetch_runs_tool_started ON source_fetch_runs(tool_id, started_at DESC);
+
+            COMMENT ON COLUMN source_fetch_runs.status IS 'Parse status from diagnostics, or error for unexpected exceptions';
+            COMMENT ON COLUMN source_fetch_runs.new_item_count IS 'Items of this run that were not already in news_items';
+        `,
+    },
+    {
+        name: "0011_add_source_alerts",
+        sql: `
+            CREATE TABLE IF NOT EXISTS source_alerts (
+                tool_id TEXT PRIMARY KEY REFERENCES tools(id) ON DELETE CASCADE,
+                reason TEXT NOT NULL,
+                message TEXT,
+                opened_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            COMMENT ON COLUMN source_alerts.reason IS 'failing: consecutive failed runs; zero_items: a productive source returns nothing';
+        `,
+    },
+    {
+        name: "0012_add_http_cache",
+        sql: `
+            CREATE TABLE IF NOT EXISTS http_cache (
+                url TEXT PRIMARY KEY,
+                etag TEXT,
+                last_modified TEXT,
+                content_hash TEXT,
+                updated_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            COMMENT ON TABLE http_cache IS 'Saved only after the page was parsed successfully, so a failed run fetches it again';
+
+            ALTER TABLE source_fetch_runs ADD COLUMN IF NOT EXISTS unchanged BOOLEAN NOT NULL DEFAULT FALSE;
+
+            COMMENT ON COLUMN source_fetch_runs.unchanged IS 'Page not modified since the last processed fetch - parse skipped, item counts are 0';
+        `,
+    },
+    {
+        name: "0013_add_proxy_routing",
+        sql: `
+            ALTER TABLE tools ADD COLUMN IF NOT EXISTS use_proxy BOOLEAN DEFAULT NULL;
+
+            COMMENT ON COLUMN tools.use_proxy IS 'Proxy rule: NULL follows PROXY_DOMAINS, TRUE always proxies, FALSE never does';
+
+            ALTER TABLE source_fetch_runs ADD COLUMN IF NOT EXISTS proxy TEXT;
+
+            COMMENT ON COLUMN source_fetch_runs.proxy IS 'Proxy that served the main request (NULL for direct requests)';
+        `,
+    },
+    {
+        name: "0014_add_tool_deferred_at",
+        sql: `
+            ALTER TABLE tools ADD COLUMN IF NOT EXISTS deferred_at TIMESTAMPTZ DEFAULT NULL;
+
+            COMMENT ON COLUMN tools.deferred_at IS 'Skipped by a run that hit its deadline - fetched first next run (oldest first)';
+        `,
+    },
+    {
+        name: "0015_add_tool_seen_items",
+        sql: `
+            CREATE TABLE IF NOT EXISTS tool_seen_items (
+                tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+                item_key TEXT NOT NULL,
+                url TEXT NOT NULL,
+                first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+                PRIMARY KEY (tool_id, item_key)
+            );
+
+            COMMENT ON TABLE tool_seen_items IS 'Saved only after the listing was parsed successfully, so a failed run sees the items again';
+        `,
+    },
+    {
+        name: "0016_add_quarantined_news_items",
+        sql: `
+            CREATE TABLE IF NOT EXISTS quarantined_news_items (
+                id BIGSERIAL PRIMARY KEY,
+                tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+                run_id TEXT NOT NULL,
+                reason TEXT NOT NULL,
+                item JSONB NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_quarantined_news_items_tool ON quarantined_news_items(tool_id, created_at DESC);
+
+            COMMENT ON TABLE quarantined_news_items IS 'The tool is re-baselined on quarantine: its listed items are marked seen and not reported again';
+        `,
+    },
+    {
+        name: "0017_add_http_cache_tool_id",
+        sql: `
+            ALTER TABLE http_cache ADD COLUMN IF NOT EXISTS tool_id TEXT REFERENCES tools(id) ON DELETE CASCADE;
+
+            DELETE FROM http_cache WHERE tool_id IS NULL;
+
+            ALTER TABLE http_cache ALTER COLUMN tool_id SET NOT NULL;
+
+            ALTER TABLE http_cache DROP CONSTRAINT IF EXISTS http_cache_pkey;
+
+            ALTER TABLE http_cache ADD PRIMARY KEY (tool_id, url);
+
+            COMMENT ON COLUMN http_cache.tool_id IS 'Tool that processed the fetch - tools sharing a news URL keep separate validators';
+        `,
+    },
 ];
 
 async function main() {
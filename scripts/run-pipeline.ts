@@ -1,14 +1,41 @@
 import { runDailyDigestPipeline } from "../src/services/newsPipeline.js";
+import { parseBackfillSince } from "../src/services/newContentChecker.js";
+import type { BackfillPolicy } from "../src/db/types.js";
 
 async function main() {
     // Парсинг аргументов командной строки
     const args = process.argv.slice(2);
     let targetDate: Date | undefined;
     let forceRegenerate = false;
+    let backfill: BackfillPolicy | undefined;
 
     for (const arg of args) {
         if (arg === "--force" || arg === "-f") {
             forceRegenerate = true;
+        } else if (arg.startsWith("--backfill=")) {
+            const items = Number(arg.split("=")[1]);
+            if (!Number.isInteger(items) || items < 1) {
+                console.error(`❌ --backfill ожидает целое число > 0: ${arg}`);
+                process.exit(1);
+            }
+            backfill = { ...backfill, items };
+        } else if (arg.startsWith("--backfill-since=")) {
+            const since = arg.split("=")[1];
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+                console.error(
+                    `❌ --backfill-since ожидает дату YYYY-MM-DD: ${arg}`
+                );
+                process.exit(1);
+            }
+            try {
+                parseBackfillSince(since);
+            } catch (error) {
+                console.error(
+                    `❌ ${error instanceof Error ? error.message : error}`
+                );
+                process.exit(1);
+            }
+            backfill = { ...backfill, since };
         } else if (arg.match(/^\d{4}-\d{2}-\d{2}$/)) {
             targetDate = new Date(arg);
         }
@@ -25,11 +52,17 @@ async function main() {
     if (forceRegenerate) {
         console.log("🔄 Принудительная регенерация дайджеста");
     }
+    if (backfill) {
+        console.log(
+            `🗄️  История новых инструментов: ${backfill.items ?? "все"} новостей${backfill.since ? ` с ${backfill.since}` : ""}`
+        );
+    }
     console.log("");
 
     const result = await runDailyDigestPipeline({
         targetDate,
         forceRegenerate,
+        backfill,
     });
 
     console.log("\n========================================");
@@ -38,6 +71,11 @@ async function main() {
     console.log(`✅ Успешно: ${result.ok}`);
     console.log(`📰 Всего новостей: ${result.totalNews}`);
     console.log(`🔧 Инструментов обработано: ${result.toolsProcessed}`);
+    if (result.toolsDeferred.length > 0) {
+        console.log(
+            `⏳ Отложено до следующего запуска: ${result.toolsDeferred.join(", ")}`
+        );
+    }
 
     if (result.digestGenerated) {
         console.log(`📝 Дайджест: сгенерирован через LLM`);
@@ -60,6 +98,9 @@ async function main() {
     console.log(
         "   npx tsx scripts/run-pipeline.ts --force   # Принудительно регенерировать дайджест"
     );
+    console.log(
+        "   npx tsx scripts/run-pipeline.ts --backfill=20 --backfill-since=2025-01-01 # История новых инструментов в архив"
+    );
 }
 
 main().catch(console.error);
@@ -181,7 +181,7 @@ const tools: ToolSeed[] = [
         name: "GitHub Copilot",
         category: "coding",
         site_url: "https://github.com/features/copilot",
-        news_url: null,
+        news_url: "https://github.blog/changelog/label/copilot/feed/",
         lang: "en",
         is_active: true,
     },
@@ -216,8 +216,8 @@ const tools: ToolSeed[] = [
         id: "windsurf",
         name: "Windsurf",
         category: "coding",
-        site_url: null,
-        news_url: null,
+        site_url: "https://windsurf.com",
+        news_url: "https://windsurf.com/changelog",
         lang: "en",
         is_active: true,
     },
@@ -226,7 +226,7 @@ const tools: ToolSeed[] = [
         name: "Aider",
         category: "coding",
         site_url: "https://aider.chat",
-        news_url: null,
+        news_url: "https://github.com/Aider-AI/aider/releases",
         lang: "en",
         is_active: true,
     },
@@ -235,7 +235,7 @@ const tools: ToolSeed[] = [
         name: "Continue",
         category: "coding",
         site_url: "https://continue.dev",
-        news_url: null,
+        news_url: "https://github.com/continuedev/continue/releases",
         lang: "en",
         is_active: true,
     },
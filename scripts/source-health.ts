@@ -0,0 +1,183 @@
+/**
+ * Parser health report from the fetch history (source_fetch_runs)
+ *
+ * Per tool: success rate, average items per parsed successful run, last success
+ * and the number of failed runs in a row, worst sources first.
+ *
+ * Usage:
+ *   npx tsx scripts/source-health.ts                # Last 7 days
+ *   npx tsx scripts/source-health.ts --days=30      # Custom window (or --days 30)
+ *   npx tsx scripts/source-health.ts --json         # Machine-readable output
+ */
+
+import { getActiveTools } from "../src/db/queries/tools.js";
+import { getSourceFetchRuns } from "../src/db/queries/sourceFetchRuns.js";
+import { getDaysAgo } from "../src/utils/dates.js";
+import type { SourceFetchRun } from "../src/db/types.js";
+
+interface SourceHealth {
+    toolId: string;
+    name: string;
+    runs: number;
+    successes: number;
+    /** Share of runs with status ok, null without runs */
+    successRate: number | null;
+    avgItems: number | null;
+    lastSuccess: string | null;
+    consecutiveFailures: number;
+    lastStatus: string | null;
+    lastError: string | null;
+}
+
+/**
+ * Summarize the runs of one tool (runs are sorted newest first)
+ */
+function summarize(
+    toolId: string,
+    name: string,
+    runs: SourceFetchRun[]
+): SourceHealth {
+    const successful = runs.filter((run) => run.status === "ok");
+    const firstSuccess = runs.findIndex((run) => run.status === "ok");
+    // Runs that skipped an unchanged page have no item count
+    const parsed = successful.filter((run) => !run.unchanged);
+    const itemTotal = parsed.reduce((sum, run) => sum + run.item_count, 0);
+
+    return {
+        toolId,
+        name,
+        runs: runs.length,
+        successes: successful.length,
+        successRate: runs.length ? successful.length / runs.length : null,
+        avgItems: parsed.length ? itemTotal / parsed.length : null,
+        lastSuccess: successful[0]?.started_at ?? null,
+        consecutiveFailures: firstSuccess === -1 ? runs.length : firstSuccess,
+        lastStatus: runs[0]?.status ?? null,
+        lastError: runs[0]?.error ?? null,
+    };
+}
+
+function formatPercent(value: number | null): string {
+    return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Window size from --days=N or --days N (default 7); exits on a bad value
+ */
+function parseDays(args: string[]): number {
+    const index = args.findIndex((arg) => arg.startsWith("--days"));
+    if (index === -1) return 7;
+
+    const value =
+        args[index] === "--days" ? args[index + 1] : args[index].split("=")[1];
+    const days = Number(value);
+    if (!value || !Number.isInteger(days) || days < 1) {
+        console.error(
+            `❌ --days expects a positive whole number: ${value ?? ""}`
+        );
+        console.error(
+            "Usage: npx tsx scripts/source-health.ts [--days=N] [--json]"
+        );
+        process.exit(1);
+    }
+    return days;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const asJson = args.includes("--json");
+    const days = parseDays(args);
+
+    if (asJson) {
+        // Keep stdout clean for the JSON document - query logs go to stderr
+        console.log = console.error;
+    }
+
+    const since = getDaysAgo(days);
+    const [tools, runs] = await Promise.all([
+        getActiveTools(),
+        getSourceFetchRuns(since.toISOString()),
+    ]);
+
+    const runsByTool = new Map<string, SourceFetchRun[]>();
+    for (const run of runs) {
+        const toolRuns = runsByTool.get(run.tool_id) ?? [];
+        toolRuns.push(run);
+        runsByTool.set(run.tool_id, toolRuns);
+    }
+
+    // Active tools without runs show up too - never fetched is worth seeing
+    const names = new Map(tools.map((tool) => [tool.id, tool.name]));
+    for (const toolId of runsByTool.keys()) {
+        if (!names.has(toolId)) names.set(toolId, toolId);
+    }
+
+    const report = [...names]
+        .map(([toolId, name]) =>
+            summarize(toolId, name, runsByTool.get(toolId) ?? [])
+        )
+        .sort(
+            (a, b) =>
+                b.consecutiveFailures - a.consecutiveFailures ||
+                (a.successRate ?? -1) - (b.successRate ?? -1) ||
+                a.name.localeCompare(b.name)
+        );
+
+    if (asJson) {
+        process.stdout.write(
+            JSON.stringify(
+                { since: since.toISOString(), days, sources: report },
+                null,
+                2
+            ) + "\n"
+        );
+        return;
+    }
+
+    console.log("\n========================================");
+    console.log("🩺 Source Health Report");
+    console.log(`📅 Window: last ${days} days (since ${since.toISOString()})`);
+    console.log(`📊 Runs recorded: ${runs.length}`);
+    console.log("========================================\n");
+
+    for (const source of report) {
+        const icon =
+            source.runs === 0
+                ? "⚪"
+                : source.consecutiveFailures === 0
+                  ? "✅"
+                  : source.successes > 0
+                    ? "⚠️"
+                    : "❌";
+        console.log(`${icon} ${source.name} (${source.toolId})`);
+
+        if (source.runs === 0) {
+            console.log("   No runs in this window\n");
+            continue;
+        }
+
+        console.log(
+            `   Success: ${formatPercent(source.successRate)} (${source.successes}/${source.runs})`
+        );
+        console.log(
+            `   Avg items: ${source.avgItems === null ? "-" : source.avgItems.toFixed(1)}`
+        );
+        console.log(`   Last success: ${source.lastSuccess ?? "never"}`);
+        if (source.consecutiveFailures > 0) {
+            console.log(
+                `   Failing for ${source.consecutiveFailures} runs: ${source.lastStatus}${source.lastError ? ` - ${source.lastError}` : ""}`
+            );
+        }
+        console.log("");
+    }
+
+    const failing = report.filter((source) => source.consecutiveFailures > 0);
+    console.log("========================================");
+    console.log(`📊 Sources: ${report.length}, failing now: ${failing.length}`);
+    console.log("========================================\n");
+}
+
+main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Test script for the date parser
+ * Runs extractDate() over a table of date strings - month names in several
+ * languages, relative and numeric dates - and over text that only looks
+ * like it contains a month ("Marketing 2025"), which must not become a date
+ *
+ * Usage:
+ *   npx tsx scripts/test-dates.ts
+ */
+
+// Supabase is never contacted - only the config module is loaded
+process.env.SUPABASE_URL ??= "http://127.0.0.1:54321";
+process.env.SUPABASE_ANON_KEY ??= "test";
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= "test";
+
+interface DateCase {
+    text: string;
+    lang?: string;
+    /** Expected YYYY-MM-DD, or null when no date must be found */
+    expected: string | null;
+}
+
+const NOW = new Date("2025-06-15T12:00:00Z");
+
+const CASES: DateCase[] = [
+    { text: "January 15, 2025", expected: "2025-01-15" },
+    { text: "Mar 3, 2025", expected: "2025-03-03" },
+    { text: "Sept. 9, 2024", expected: "2024-09-09" },
+    { text: "15. Januar 2025", lang: "de", expected: "2025-01-15" },
+    { text: "12 січня 2025", lang: "uk", expected: "2025-01-12" },
+    { text: "3 марта 2025", lang: "ru", expected: "2025-03-03" },
+    { text: "5 mai 2025", lang: "fr", expected: "2025-05-05" },
+    { text: "2025-02-01", expected: "2025-02-01" },
+    { text: "Tue, 14 Jan 2025 10:00:00 GMT", expected: "2025-01-14" },
+    { text: "Published on March 5, 2025", expected: "2025-03-05" },
+    { text: "3 days ago", expected: "2025-06-12" },
+    // Words that start like a month name
+    { text: "Marketing 2025", expected: null },
+    { text: "Decision day 12, 2025", expected: null },
+    { text: "Junior devs 2025", expected: null },
+    { text: "Augmented search 4, 2025", expected: null },
+    { text: "Octopus release 7 2025", expected: null },
+];
+
+async function main() {
+    const { extractDate } = await import(
+        "../src/services/parsers/dateParser.js"
+    );
+
+    console.log("\n========================================");
+    console.log("📅 Date Parser Test");
+    console.log("========================================\n");
+
+    let failures = 0;
+    for (const { text, lang, expected } of CASES) {
+        const result = extractDate(text, { lang, now: NOW });
+        const actual = result ? result.date.toISOString().slice(0, 10) : null;
+        const ok = actual === expected;
+        if (!ok) failures++;
+        console.log(
+            `${ok ? "✅" : "❌"} "${text}"${lang ? ` (${lang})` : ""} → ${actual ?? "no date"}${ok ? "" : `, expected ${expected ?? "no date"}`}`
+        );
+    }
+
+    console.log(`\n📊 ${CASES.length - failures}/${CASES.length} passed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+});
@@ -0,0 +1,82 @@
+/**
+ * Test script for reading source_fetch_runs page by page
+ * Starts a local PostgREST stand-in that, like the real one, returns at
+ * most 1000 rows per response, then checks that getSourceFetchRuns()
+ * reads every run of the window
+ *
+ * Usage:
+ *   npx tsx scripts/test-fetch-runs.ts              # 2310 runs (77 tools x 30 days)
+ *   npx tsx scripts/test-fetch-runs.ts --rows=1000  # Exactly one full page
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * PostgREST max-rows: longer responses are cut off without an error
+ */
+const MAX_ROWS = 1000;
+
+async function main() {
+    const args = process.argv.slice(2);
+    const rowsArg = args.find((arg) => arg.startsWith("--rows="));
+    const total = rowsArg ? parseInt(rowsArg.split("=")[1], 10) : 77 * 30;
+
+    // Newest first, as the query orders them
+    const rows = Array.from({ length: total }, (_, i) => ({
+        id: total - i,
+        run_id: `run-${Math.floor((total - i) / 77)}`,
+        tool_id: `tool-${(total - i) % 77}`,
+        started_at: new Date(Date.UTC(2025, 0, 1) - i * 60_000).toISOString(),
+    }));
+    let requests = 0;
+
+    const server = http.createServer((req, res) => {
+        requests++;
+        const query = new URL(req.url ?? "", "http://localhost").searchParams;
+        const offset = parseInt(query.get("offset") ?? "0", 10);
+        const limit = Math.min(
+            parseInt(query.get("limit") ?? String(MAX_ROWS), 10),
+            MAX_ROWS
+        );
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(rows.slice(offset, offset + limit)));
+    });
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+    );
+    const port = (server.address() as AddressInfo).port;
+
+    // The config is read on import, so point Supabase at the stand-in first
+    process.env.SUPABASE_URL = `http://127.0.0.1:${port}`;
+    process.env.SUPABASE_ANON_KEY = "test";
+    process.env.SUPABASE_SERVICE_ROLE_KEY = "test";
+
+    const { getSourceFetchRuns } = await import(
+        "../src/db/queries/sourceFetchRuns.js"
+    );
+
+    console.log("\n========================================");
+    console.log("📄 Fetch Runs Pagination Test");
+    console.log(`Rows: ${total}, max rows per response: ${MAX_ROWS}`);
+    console.log("========================================\n");
+
+    const runs = await getSourceFetchRuns(new Date(0).toISOString());
+    const ordered = runs.every(
+        (run, i) => i === 0 || runs[i - 1].started_at >= run.started_at
+    );
+
+    console.log(
+        `${runs.length === total ? "✅" : "❌"} Read ${runs.length} of ${total} runs`
+    );
+    console.log(`${ordered ? "✅" : "❌"} Newest first`);
+    console.log(`📦 Requests: ${requests}`);
+
+    server.close();
+    process.exit(runs.length === total && ordered ? 0 : 1);
+}
+
+main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+});
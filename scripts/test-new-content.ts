@@ -4,7 +4,7 @@
  * Usage:
  *   npx tsx scripts/test-new-content.ts           # Check all tools
  *   npx tsx scripts/test-new-content.ts chatgpt   # Check specific tool
- *   npx tsx scripts/test-new-content.ts --dry     # Don't update last_parsed_url
+ *   npx tsx scripts/test-new-content.ts --dry     # Don't mark items seen
  */
 
 import { getActiveTools, getToolById } from "../src/db/queries/tools.js";
@@ -12,6 +12,7 @@ import {
     checkForNewContent,
     checkAndUpdateLastParsed,
 } from "../src/services/newContentChecker.js";
+import { describeDiagnostics } from "../src/services/parsers/index.js";
 
 async function main() {
     const args = process.argv.slice(2);
@@ -76,11 +77,16 @@ async function main() {
                     console.log();
                 }
             } else {
-                console.log(`\n⏸️  No new content (URL unchanged)`);
+                console.log(`\n⏸️  No new content (all listed items seen)`);
                 console.log(
                     `   Current latest: ${result.latestUrl || "could not fetch"}`
                 );
             }
+            if (result.diagnostics.status !== "ok") {
+                console.log(
+                    `   ⚠️  ${describeDiagnostics(result.diagnostics)}`
+                );
+            }
         } catch (error) {
             console.error(
                 `\n❌ Error:`,
@@ -3,7 +3,12 @@ import {
     fetchToolNews,
     validateToolNewsUrl,
 } from "../src/services/fetchToolNews.js";
-import { findParser } from "../src/services/parsers/index.js";
+import {
+    describeDiagnostics,
+    findParser,
+    resolveNewsUrl,
+} from "../src/services/parsers/index.js";
+import type { ParseStatus } from "../src/services/parsers/index.js";
 
 /**
  * Test script to validate news parsing for all tools with news_url
@@ -24,6 +29,7 @@ async function main() {
         url: string;
         parser: string;
         status: "success" | "no_articles" | "error";
+        parseStatus?: ParseStatus;
         count: number;
         error?: string;
     }[] = [];
@@ -34,9 +40,10 @@ async function main() {
 
     for (const tool of toolsToTest) {
         console.log(`\n📰 ${tool.name}`);
-        console.log(`   URL: ${tool.news_url}`);
+        const newsUrl = resolveNewsUrl(tool)!;
+        console.log(`   URL: ${newsUrl}`);
 
-        const parser = findParser(tool.news_url!);
+        const parser = findParser(newsUrl, tool);
         console.log(`   Parser: ${parser.name}`);
 
         try {
@@ -44,9 +51,24 @@ async function main() {
             const since = new Date();
             since.setDate(since.getDate() - 30);
 
-            const news = await fetchToolNews(tool, since);
+            const { items: news, diagnostics } = await fetchToolNews(
+                tool,
+                since
+            );
+            console.log(`   Diagnostics: ${describeDiagnostics(diagnostics)}`);
 
-            if (news.length > 0) {
+            if (diagnostics.status !== "ok") {
+                console.log(`   ❌ ${diagnostics.status}`);
+                results.push({
+                    tool: tool.name,
+                    url: newsUrl,
+                    parser: parser.name,
+                    status: "error",
+                    parseStatus: diagnostics.status,
+                    count: news.length,
+                    error: describeDiagnostics(diagnostics),
+                });
+            } else if (news.length > 0) {
                 console.log(`   ✅ Found ${news.length} articles`);
                 news.slice(0, 3).forEach((item) => {
                     console.log(`      - ${item.title}`);
@@ -58,18 +80,20 @@ async function main() {
                 });
                 results.push({
                     tool: tool.name,
-                    url: tool.news_url!,
+                    url: newsUrl,
                     parser: parser.name,
                     status: "success",
+                    parseStatus: diagnostics.status,
                     count: news.length,
                 });
             } else {
                 console.log(`   ⚠️  No articles found`);
                 results.push({
                     tool: tool.name,
-                    url: tool.news_url!,
+                    url: newsUrl,
                     parser: parser.name,
                     status: "no_articles",
+                    parseStatus: diagnostics.status,
                     count: 0,
                 });
             }
@@ -79,7 +103,7 @@ async function main() {
             console.log(`   ❌ Error: ${errorMsg}`);
             results.push({
                 tool: tool.name,
-                url: tool.news_url!,
+                url: newsUrl,
                 parser: parser.name,
                 status: "error",
                 count: 0,
@@ -110,6 +134,20 @@ async function main() {
         );
     }
 
+    // Failure classes: blocked, not_found, timeout, parse_error...
+    const byStatus = new Map<string, number>();
+    for (const r of results) {
+        if (r.parseStatus && r.parseStatus !== "ok") {
+            byStatus.set(r.parseStatus, (byStatus.get(r.parseStatus) ?? 0) + 1);
+        }
+    }
+    if (byStatus.size > 0) {
+        console.log(
+            "\n🏷️  Failure classes:",
+            [...byStatus].map(([status, n]) => `${status}=${n}`).join(", ")
+        );
+    }
+
     if (errors.length > 0) {
         console.log("\n❌ Errors:");
         errors.forEach((r) => {
@@ -4,6 +4,16 @@ import { z } from "zod";
 // Load .env file in development
 dotenvConfig();
 
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function splitList(value: string): string[] {
+    return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
 /**
  * Environment variables schema with validation
  */
@@ -31,6 +41,17 @@ const envSchema = z.object({
         .string()
         .transform((val) => val.trim() === "true")
         .default("false"),
+    // Proxy pool (comma-separated URLs) and hosts routed through it
+    // (comma-separated, empty = all hosts)
+    PROXY_URLS: z
+        .string()
+        .transform((val) => splitList(val))
+        .pipe(z.array(z.string().url("PROXY_URLS must be valid URLs")))
+        .default(""),
+    PROXY_DOMAINS: z
+        .string()
+        .transform((val) => splitList(val).map((d) => d.toLowerCase()))
+        .default(""),
 
     // Fetch settings
     FETCH_TIMEOUT_MS: z
@@ -41,6 +62,128 @@ const envSchema = z.object({
         .string()
         .transform((val) => parseInt(val.trim(), 10))
         .default("2"),
+    // Largest response body downloaded; bigger ones are aborted mid-stream
+    FETCH_MAX_BODY_BYTES: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("5242880"),
+
+    // Request scheduler: pause between requests to one host and
+    // requests in flight across all hosts
+    FETCH_HOST_INTERVAL_MS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().nonnegative())
+        .default("1000"),
+    FETCH_MAX_CONCURRENCY: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("4"),
+
+    // Conditional requests for news pages (ETag / Last-Modified / body hash)
+    HTTP_CACHE_ENABLED: z
+        .string()
+        .transform((val) => val.trim() === "true")
+        .default("true"),
+
+    // Query parameters dropped from URLs before hashing and detection
+    // (comma-separated, "utm_*" matches by prefix)
+    URL_TRACKING_PARAMS: z
+        .string()
+        .transform((val) => splitList(val).map((p) => p.toLowerCase()))
+        .default(
+            "utm_*,ref,ref_src,source,fbclid,gclid,dclid,msclkid,yclid,mc_cid,mc_eid,_hsenc,_hsmi,mkt_tok,igshid"
+        ),
+
+    // Pipeline: tools fetched in parallel and the time budget of a run
+    // (tools not started when the fetch phase runs out are deferred)
+    PIPELINE_CONCURRENCY: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("4"),
+    PIPELINE_BUDGET_MS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("240000"),
+
+    // Flood guard: a tool's "new" items are quarantined when there are at
+    // least FLOOD_MIN_ITEMS of them and more than FLOOD_HISTORY_FACTOR times
+    // its usual count, or when most of them are older than the last check
+    FLOOD_GUARD_ENABLED: z
+        .string()
+        .transform((val) => val.trim() === "true")
+        .default("true"),
+    FLOOD_MIN_ITEMS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("8"),
+    FLOOD_HISTORY_FACTOR: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("3"),
+
+    // Maximum listing pages walked per tool while looking for an already seen item
+    PAGINATION_MAX_PAGES: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("5"),
+
+    // HTTP record/replay: "live" hits the network, "record" also saves
+    // responses to FETCH_FIXTURES_DIR, "replay" serves them without network
+    FETCH_MODE: z
+        .string()
+        .transform((val) => val.trim())
+        .pipe(z.enum(["live", "record", "replay"]))
+        .default("live"),
+    FETCH_FIXTURES_DIR: z
+        .string()
+        .transform((val) => val.trim())
+        .default("fixtures/http"),
+
+    // Headless browser backend (tools.fetch_backend = 'browser')
+    CHROMIUM_PATH: z
+        .string()
+        .transform((val) => val.trim())
+        .default("chromium"),
+    BROWSER_TIMEOUT_MS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("45000"),
+    BROWSER_RENDER_BUDGET_MS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("10000"),
+
+    // Article enrichment (fetches pages of items without content)
+    ENRICH_ENABLED: z
+        .string()
+        .transform((val) => val.trim() === "true")
+        .default("true"),
+    ENRICH_MAX_ITEMS: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("30"),
+    ENRICH_CONCURRENCY: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("3"),
+
+    // GitHub API token (optional, raises the releases API rate limit)
+    GITHUB_TOKEN: z
+        .string()
+        .transform((val) => val.trim())
+        .optional(),
 
     // OpenAI settings (optional if using Gemini)
     OPENAI_API_KEY: z.string().optional(),
@@ -72,6 +215,17 @@ const envSchema = z.object({
         .string()
         .transform((val) => val.trim())
         .optional(),
+
+    // Broken-source alerts (sent only when the admin chat is set)
+    TELEGRAM_ADMIN_CHAT_ID: z
+        .string()
+        .transform((val) => val.trim())
+        .optional(),
+    ALERT_FAILURE_THRESHOLD: z
+        .string()
+        .transform((val) => parseInt(val.trim(), 10))
+        .pipe(z.number().int().positive())
+        .default("3"),
 });
 
 /**
@@ -100,9 +254,35 @@ function loadConfig() {
         // Proxy settings
         proxyUrl: parsed.data.PROXY_URL,
         proxyEnabled: parsed.data.PROXY_ENABLED,
+        proxyUrls: parsed.data.PROXY_URLS,
+        proxyDomains: parsed.data.PROXY_DOMAINS,
         // Fetch settings
         fetchTimeoutMs: parsed.data.FETCH_TIMEOUT_MS,
         fetchRetryCount: parsed.data.FETCH_RETRY_COUNT,
+        fetchMaxBodyBytes: parsed.data.FETCH_MAX_BODY_BYTES,
+        fetchHostIntervalMs: parsed.data.FETCH_HOST_INTERVAL_MS,
+        fetchMaxConcurrency: parsed.data.FETCH_MAX_CONCURRENCY,
+        httpCacheEnabled: parsed.data.HTTP_CACHE_ENABLED,
+        urlTrackingParams: parsed.data.URL_TRACKING_PARAMS,
+        paginationMaxPages: parsed.data.PAGINATION_MAX_PAGES,
+        // Pipeline settings
+        pipelineConcurrency: parsed.data.PIPELINE_CONCURRENCY,
+        pipelineBudgetMs: parsed.data.PIPELINE_BUDGET_MS,
+        floodGuardEnabled: parsed.data.FLOOD_GUARD_ENABLED,
+        floodMinItems: parsed.data.FLOOD_MIN_ITEMS,
+        floodHistoryFactor: parsed.data.FLOOD_HISTORY_FACTOR,
+        fetchMode: parsed.data.FETCH_MODE,
+        fetchFixturesDir: parsed.data.FETCH_FIXTURES_DIR,
+        // Browser backend settings
+        chromiumPath: parsed.data.CHROMIUM_PATH,
+        browserTimeoutMs: parsed.data.BROWSER_TIMEOUT_MS,
+        browserRenderBudgetMs: parsed.data.BROWSER_RENDER_BUDGET_MS,
+        // Enrichment settings
+        enrichEnabled: parsed.data.ENRICH_ENABLED,
+        enrichMaxItems: parsed.data.ENRICH_MAX_ITEMS,
+        enrichConcurrency: parsed.data.ENRICH_CONCURRENCY,
+        // GitHub settings
+        githubToken: parsed.data.GITHUB_TOKEN,
         // OpenAI settings
         openaiApiKey: parsed.data.OPENAI_API_KEY,
         openaiModel: parsed.data.OPENAI_MODEL,
@@ -114,6 +294,9 @@ function loadConfig() {
         // Telegram settings
         telegramBotToken: parsed.data.TELEGRAM_BOT_TOKEN,
         telegramChannelId: parsed.data.TELEGRAM_CHANNEL_ID,
+        // Alert settings
+        telegramAdminChatId: parsed.data.TELEGRAM_ADMIN_CHAT_ID,
+        alertFailureThreshold: parsed.data.ALERT_FAILURE_THRESHOLD,
     };
 }
 
@@ -0,0 +1,51 @@
+import { supabase } from "../supabaseClient.js";
+import type { HttpCacheEntry, HttpCacheEntryInput } from "../types.js";
+
+/**
+ * Get the cached validators of a URL as last processed by a tool
+ *
+ * @param toolId Tool ID
+ * @param url Page URL
+ * @returns Cache entry or null if the tool never saved the URL
+ * @throws Error if database query fails
+ */
+export async function getHttpCacheEntry(
+    toolId: string,
+    url: string
+): Promise<HttpCacheEntry | null> {
+    const { data, error } = await supabase
+        .from("http_cache")
+        .select("*")
+        .eq("tool_id", toolId)
+        .eq("url", url)
+        .maybeSingle();
+
+    if (error) {
+        console.error("[httpCache] Error fetching cache entry:", error.message);
+        throw new Error(`Failed to fetch HTTP cache entry: ${error.message}`);
+    }
+
+    return (data as HttpCacheEntry | null) ?? null;
+}
+
+/**
+ * Save the validators of a processed fetch
+ *
+ * @param entry Tool, validators and body hash of the page
+ * @throws Error if database operation fails
+ */
+export async function saveHttpCacheEntry(
+    entry: HttpCacheEntryInput
+): Promise<void> {
+    const { error } = await supabase.from("http_cache").upsert(
+        { ...entry, updated_at: new Date().toISOString() },
+        {
+            onConflict: "tool_id,url",
+        }
+    );
+
+    if (error) {
+        console.error("[httpCache] Error saving cache entry:", error.message);
+        throw new Error(`Failed to save HTTP cache entry: ${error.message}`);
+    }
+}
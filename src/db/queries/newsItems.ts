@@ -6,41 +6,53 @@ import type {
     Tool,
 } from "../types.js";
 
+/**
+ * digest_date of backfilled items: archived without ever being in a digest
+ */
+export const BACKFILL_DIGEST_DATE = "1970-01-01";
+
 /**
  * Insert multiple news items into the database
  * Uses upsert to handle duplicates based on hash
  *
  * @param items Array of news items to insert
+ * @returns Rows that were actually inserted (duplicates are skipped)
  * @throws Error if database operation fails
  */
-export async function insertNewsItems(items: NewsItemInput[]): Promise<void> {
+export async function insertNewsItems(
+    items: NewsItemInput[]
+): Promise<Pick<NewsItem, "id" | "tool_id">[]> {
     if (items.length === 0) {
         console.log("[newsItems] No items to insert");
-        return;
+        return [];
     }
 
     console.log(`[newsItems] Inserting ${items.length} news items...`);
 
     // Use upsert with hash as the conflict key to avoid duplicates
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await supabase.from("news_items").upsert(items as any[], {
-        onConflict: "hash",
-        ignoreDuplicates: true,
-    });
+    const { data, error } = await supabase
+        .from("news_items")
+        .upsert(items, {
+            onConflict: "hash",
+            ignoreDuplicates: true,
+        })
+        .select("id, tool_id");
 
     if (error) {
         console.error("[newsItems] Error inserting news items:", error.message);
         throw new Error(`Failed to insert news items: ${error.message}`);
     }
 
+    const inserted = (data as Pick<NewsItem, "id" | "tool_id">[] | null) ?? [];
     console.log(
-        `[newsItems] Successfully inserted/updated ${items.length} news items`
+        `[newsItems] Inserted ${inserted.length} new of ${items.length} news items`
     );
+    return inserted;
 }
 
 /**
  * Get news items for a specific date with optional importance filter
- * Returns news items joined with tool information
+ * Returns news items joined with tool information (backfilled items excluded)
  *
  * @param date Date in YYYY-MM-DD format
  * @param importanceFilter Optional array of importance levels to filter by
@@ -62,6 +74,7 @@ export async function getTodayNews(
         .select("*")
         .gte("published_at", startOfDay)
         .lte("published_at", endOfDay)
+        .or(`digest_date.is.null,digest_date.neq.${BACKFILL_DIGEST_DATE}`)
         .order("published_at", { ascending: false });
 
     if (importanceFilter && importanceFilter.length > 0) {
@@ -0,0 +1,86 @@
+import { supabase } from "../supabaseClient.js";
+import type {
+    QuarantinedNewsItem,
+    QuarantinedNewsItemInput,
+} from "../types.js";
+
+/**
+ * Hold news items back for manual review
+ *
+ * @param items Items of flagged tools with the reason
+ * @throws Error if database operation fails
+ */
+export async function insertQuarantinedItems(
+    items: QuarantinedNewsItemInput[]
+): Promise<void> {
+    if (items.length === 0) return;
+
+    const { error } = await supabase
+        .from("quarantined_news_items")
+        .insert(items);
+
+    if (error) {
+        console.error(
+            "[quarantinedNewsItems] Error quarantining items:",
+            error.message
+        );
+        throw new Error(`Failed to quarantine news items: ${error.message}`);
+    }
+
+    console.log(`[quarantinedNewsItems] Quarantined ${items.length} items`);
+}
+
+/**
+ * Get quarantined items, oldest first
+ *
+ * @param toolId Only items of this tool (default: all tools)
+ * @returns Array of quarantined items
+ * @throws Error if database query fails
+ */
+export async function getQuarantinedItems(
+    toolId?: string
+): Promise<QuarantinedNewsItem[]> {
+    let query = supabase
+        .from("quarantined_news_items")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+    if (toolId) {
+        query = query.eq("tool_id", toolId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error(
+            "[quarantinedNewsItems] Error fetching quarantined items:",
+            error.message
+        );
+        throw new Error(`Failed to fetch quarantined items: ${error.message}`);
+    }
+
+    return (data as QuarantinedNewsItem[] | null) ?? [];
+}
+
+/**
+ * Remove reviewed items from the quarantine
+ *
+ * @param ids Quarantined item identifiers
+ * @throws Error if database operation fails
+ */
+export async function deleteQuarantinedItems(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+        .from("quarantined_news_items")
+        .delete()
+        .in("id", ids);
+
+    if (error) {
+        console.error(
+            "[quarantinedNewsItems] Error deleting quarantined items:",
+            error.message
+        );
+        throw new Error(`Failed to delete quarantined items: ${error.message}`);
+    }
+}
@@ -0,0 +1,64 @@
+import { supabase } from "../supabaseClient.js";
+import type { SourceAlert } from "../types.js";
+
+/**
+ * Get all open source alerts
+ *
+ * @returns Alerts of sources that were reported and have not recovered
+ * @throws Error if database query fails
+ */
+export async function getOpenSourceAlerts(): Promise<SourceAlert[]> {
+    const { data, error } = await supabase.from("source_alerts").select("*");
+
+    if (error) {
+        console.error("[sourceAlerts] Error fetching alerts:", error.message);
+        throw new Error(`Failed to fetch source alerts: ${error.message}`);
+    }
+
+    return (data as SourceAlert[] | null) ?? [];
+}
+
+/**
+ * Open alerts (or replace the reason of already open ones)
+ *
+ * @param alerts Alerts that were sent to the admin chat
+ * @throws Error if database operation fails
+ */
+export async function openSourceAlerts(
+    alerts: Omit<SourceAlert, "opened_at">[]
+): Promise<void> {
+    if (alerts.length === 0) return;
+
+    const { error } = await supabase.from("source_alerts").upsert(
+        alerts.map((alert) => ({
+            ...alert,
+            opened_at: new Date().toISOString(),
+        })),
+        { onConflict: "tool_id" }
+    );
+
+    if (error) {
+        console.error("[sourceAlerts] Error opening alerts:", error.message);
+        throw new Error(`Failed to open source alerts: ${error.message}`);
+    }
+}
+
+/**
+ * Close the alerts of recovered sources
+ *
+ * @param toolIds Tools whose sources work again
+ * @throws Error if database operation fails
+ */
+export async function closeSourceAlerts(toolIds: string[]): Promise<void> {
+    if (toolIds.length === 0) return;
+
+    const { error } = await supabase
+        .from("source_alerts")
+        .delete()
+        .in("tool_id", toolIds);
+
+    if (error) {
+        console.error("[sourceAlerts] Error closing alerts:", error.message);
+        throw new Error(`Failed to close source alerts: ${error.message}`);
+    }
+}
@@ -0,0 +1,69 @@
+import { supabase } from "../supabaseClient.js";
+import type { SourceFetchRun, SourceFetchRunInput } from "../types.js";
+
+/**
+ * Rows read per request (PostgREST caps responses at 1000 rows)
+ */
+const PAGE_SIZE = 1000;
+
+/**
+ * Record the per-tool results of a pipeline run
+ *
+ * @param runs One entry per tool fetched in the run
+ * @throws Error if database operation fails
+ */
+export async function insertSourceFetchRuns(
+    runs: SourceFetchRunInput[]
+): Promise<void> {
+    if (runs.length === 0) return;
+
+    const { error } = await supabase.from("source_fetch_runs").insert(runs);
+
+    if (error) {
+        console.error(
+            "[sourceFetchRuns] Error inserting fetch runs:",
+            error.message
+        );
+        throw new Error(`Failed to insert fetch runs: ${error.message}`);
+    }
+
+    console.log(`[sourceFetchRuns] Recorded ${runs.length} fetch runs`);
+}
+
+/**
+ * Get fetch runs started after the given moment, newest first
+ * Read page by page - a month of runs is more than one response holds
+ *
+ * @param since ISO timestamp - start of the report window
+ * @returns Array of fetch runs
+ * @throws Error if database query fails
+ */
+export async function getSourceFetchRuns(
+    since: string
+): Promise<SourceFetchRun[]> {
+    const runs: SourceFetchRun[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("source_fetch_runs")
+            .select("*")
+            .gte("started_at", since)
+            .order("started_at", { ascending: false })
+            .order("id", { ascending: false })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            console.error(
+                "[sourceFetchRuns] Error fetching fetch runs:",
+                error.message
+            );
+            throw new Error(`Failed to fetch fetch runs: ${error.message}`);
+        }
+
+        const page = (data as SourceFetchRun[] | null) ?? [];
+        runs.push(...page);
+        if (page.length < PAGE_SIZE) break;
+    }
+
+    return runs;
+}
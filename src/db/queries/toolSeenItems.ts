@@ -0,0 +1,68 @@
+import { supabase } from "../supabaseClient.js";
+import type { ToolSeenItemInput } from "../types.js";
+
+/**
+ * Rows read per request (PostgREST caps responses at 1000 rows)
+ */
+const PAGE_SIZE = 1000;
+
+/**
+ * Get every item of a tool that was already seen
+ *
+ * @param toolId Tool identifier
+ * @returns Keys and URLs of the seen items
+ * @throws Error if database query fails
+ */
+export async function getToolSeenItems(
+    toolId: string
+): Promise<ToolSeenItemInput[]> {
+    const items: ToolSeenItemInput[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("tool_seen_items")
+            .select("tool_id, item_key, url")
+            .eq("tool_id", toolId)
+            .order("item_key", { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            console.error(
+                `[toolSeenItems] Error fetching seen items for ${toolId}:`,
+                error.message
+            );
+            throw new Error(`Failed to fetch seen items: ${error.message}`);
+        }
+
+        const page = (data as ToolSeenItemInput[] | null) ?? [];
+        items.push(...page);
+        if (page.length < PAGE_SIZE) break;
+    }
+
+    return items;
+}
+
+/**
+ * Mark items as seen; items seen before keep their first_seen_at
+ *
+ * @param items Items listed on the tool's news source
+ * @throws Error if database operation fails
+ */
+export async function markToolItemsSeen(
+    items: ToolSeenItemInput[]
+): Promise<void> {
+    if (items.length === 0) return;
+
+    const { error } = await supabase.from("tool_seen_items").upsert(items, {
+        onConflict: "tool_id,item_key",
+        ignoreDuplicates: true,
+    });
+
+    if (error) {
+        console.error(
+            "[toolSeenItems] Error marking items seen:",
+            error.message
+        );
+        throw new Error(`Failed to mark items seen: ${error.message}`);
+    }
+}
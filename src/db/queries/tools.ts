@@ -3,6 +3,7 @@ import type { Tool } from "../types.js";
 
 /**
  * Get all active tools from the database
+ * Tools deferred by an earlier run come first, oldest deferral first
  * @returns Array of active Tool entities
  * @throws Error if database query fails
  */
@@ -13,6 +14,7 @@ export async function getActiveTools(): Promise<Tool[]> {
         .from("tools")
         .select("*")
         .eq("is_active", true)
+        .order("deferred_at", { ascending: true, nullsFirst: false })
         .order("name", { ascending: true });
 
     if (error) {
@@ -53,6 +55,65 @@ export async function updateToolLastParsedUrl(
     console.log(`[tools] Updated last_parsed_url for ${toolId}: ${lastUrl}`);
 }
 
+/**
+ * Remember a feed discovered on the tool's news page
+ * The next run reads the feed directly instead of scraping news_url
+ * @param toolId Tool identifier
+ * @param feedUrl Discovered RSS/Atom/JSON feed URL, or null to forget it
+ */
+export async function updateToolFeedUrl(
+    toolId: string,
+    feedUrl: string | null
+): Promise<void> {
+    const { error } = await supabase
+        .from("tools")
+        .update({ feed_url: feedUrl })
+        .eq("id", toolId);
+
+    if (error) {
+        console.error(
+            `[tools] Error updating feed_url for ${toolId}:`,
+            error.message
+        );
+        throw new Error(`Failed to update feed_url: ${error.message}`);
+    }
+
+    console.log(
+        `[tools] Updated feed_url for ${toolId}: ${feedUrl ?? "cleared"}`
+    );
+}
+
+/**
+ * Mark tools a run had no time for, or clear the mark once they are processed
+ * An existing mark is kept, so a tool deferred twice keeps its place in line
+ * @param toolIds Tool identifiers
+ * @param deferred true to mark the tools deferred, false to clear the mark
+ * @throws Error if database update fails
+ */
+export async function updateToolsDeferred(
+    toolIds: string[],
+    deferred: boolean
+): Promise<void> {
+    if (toolIds.length === 0) return;
+
+    const query = supabase
+        .from("tools")
+        .update({ deferred_at: deferred ? new Date().toISOString() : null })
+        .in("id", toolIds);
+    const { error } = deferred
+        ? await query.is("deferred_at", null)
+        : await query;
+
+    if (error) {
+        console.error("[tools] Error updating deferred tools:", error.message);
+        throw new Error(`Failed to update deferred tools: ${error.message}`);
+    }
+
+    console.log(
+        `[tools] ${deferred ? "Deferred" : "Cleared deferral of"} ${toolIds.length} tools`
+    );
+}
+
 /**
  * Get a specific tool by ID
  * @param id Tool identifier
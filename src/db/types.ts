@@ -13,14 +13,124 @@ export interface Tool {
     category: string | null;
     site_url: string | null;
     news_url: string | null;
+    feed_url: string | null; // Discovered via <link rel="alternate">
     lang: string;
     is_active: boolean;
+    /** Latest item of the last run with new content - for display only */
     last_parsed_url: string | null;
     last_parsed_at: string | null;
+    parser_config: ParserConfig | null;
+    fetch_backend: FetchBackend;
+    /** Proxy rule: null follows PROXY_DOMAINS, true/false always/never proxy */
+    use_proxy: boolean | null;
+    /** Set when a run ran out of time before reaching the tool - goes first next run */
+    deferred_at: string | null;
     created_at: string;
     updated_at: string;
 }
 
+/**
+ * How pages of a tool are downloaded
+ * - http: plain HTTP request (default)
+ * - browser: rendered in headless Chromium, for SPA and Cloudflare-protected sites
+ */
+export type FetchBackend = "http" | "browser";
+
+/**
+ * CSS selector spec for the configurable HTML parser
+ * All selectors are relative to the matched container element
+ */
+export interface SelectorConfig {
+    /** Selector for each news card (may itself be a link) */
+    container: string;
+    /** Selector for the title element */
+    title: string;
+    /** Selector for the link element (default: container itself if it is a link, else first "a") */
+    link?: string;
+    /** Selector for the date element ("datetime"/"data-date" attributes win over text) */
+    date?: string;
+    /** Selector for the excerpt element */
+    excerpt?: string;
+    /** Regex the absolute article URL must match */
+    linkInclude?: string;
+    /** Regex the absolute article URL must NOT match */
+    linkExclude?: string;
+    /** dayjs format of the date text, e.g. "MMMM D, YYYY" (default: free-form parsing) */
+    dateFormat?: string;
+    /** Use the container text as title when the title selector matches nothing */
+    titleFromText?: boolean;
+    /** Minimum title length (default: 10) */
+    minTitleLength?: number;
+    /** Maximum title length (default: 200) */
+    maxTitleLength?: number;
+    /** Maximum number of items to return (default: 20) */
+    limit?: number;
+    /** Selector for the "next page" link (default: rel="next", then /page/N+1 links) */
+    nextPage?: string;
+}
+
+/**
+ * Per-tool parser configuration stored in tools.parser_config
+ */
+export interface ParserConfig {
+    /** Selector spec - when set, the configurable HTML parser is used */
+    selectors?: SelectorConfig;
+    /** Options for the sitemap parser */
+    sitemap?: SitemapOptions;
+    /** Options for the GitHub releases parser */
+    github?: GitHubReleasesOptions;
+    /** Changelog options - when set, the changelog parser is used */
+    changelog?: ChangelogOptions;
+    /** History stored on the tool's first run (default: latest item only) */
+    backfill?: BackfillPolicy;
+}
+
+/**
+ * Which older items of a new tool are stored on its first run
+ * Both limits apply when both are set. Backfilled items are inserted as
+ * already digested, so they reach the archive but not the next digest
+ */
+export interface BackfillPolicy {
+    /** Keep the N most recent items, the newest one included */
+    items?: number;
+    /** Keep items published on or after this ISO date (undated items are skipped) */
+    since?: string;
+}
+
+/**
+ * Options for tools whose news_url points at a sitemap
+ */
+export interface SitemapOptions {
+    /** Regex the URL path must match (default: "/blog/") */
+    pathPattern?: string;
+    /** Maximum number of items to return (default: 20) */
+    limit?: number;
+}
+
+/**
+ * Options for the changelog parser (tools.parser_config.changelog)
+ */
+export interface ChangelogOptions {
+    /** Selector for the element holding the changelog (default: main, else body) */
+    root?: string;
+    /** Selector for entry headings (default: highest level with versions/dates) */
+    headingSelector?: string;
+    /** Maximum number of entries to return (default: 20) */
+    limit?: number;
+}
+
+/**
+ * Options for tools whose news_url points at GitHub releases
+ */
+export interface GitHubReleasesOptions {
+    /** Skip draft releases (default: true) */
+    skipDrafts?: boolean;
+    /** Skip nightly builds (default: true) */
+    skipNightly?: boolean;
+    /** Regex matched against tag name to detect nightly builds (default: "nightly") */
+    nightlyPattern?: string;
+}
+
 /**
  * News Item entity
  * Represents a single news item from an AI tool
@@ -31,10 +141,16 @@ export interface NewsItem {
     title: string;
     url: string;
     published_at: string | null;
+    /** 1 = explicit date, lower = inferred (relative, yearless, from URL) */
+    published_at_confidence: number | null;
     raw_content: string | null;
     snippet: string | null;
     importance: "high" | "medium" | "low" | null;
     tags: string[];
+    /** Stable id from the source (feed guid / Atom id), used for deduplication */
+    external_id: string | null;
+    author: string | null;
+    image_url: string | null;
     lang: string | null;
     hash: string | null;
     digest_date: string | null; // Date when included in a digest
@@ -56,12 +172,17 @@ export interface NewsItemInput {
     title: string;
     url: string;
     published_at?: string | null;
+    published_at_confidence?: number | null;
     raw_content?: string | null;
     snippet?: string | null;
     importance?: "high" | "medium" | "low" | null;
     tags?: string[];
+    external_id?: string | null;
+    author?: string | null;
+    image_url?: string | null;
     lang?: string | null;
     hash?: string | null;
+    digest_date?: string | null;
 }
 
 /**
@@ -89,6 +210,112 @@ export interface DailyDigestInput {
     tools_list?: string[];
 }
 
+/**
+ * Source fetch run entity
+ * One tool fetched in one pipeline run (parser health history)
+ */
+export interface SourceFetchRun {
+    id: number;
+    run_id: string;
+    tool_id: string;
+    parser: string | null;
+    /** Parse status (ok, blocked, not_found, ...) or "error" for exceptions */
+    status: string;
+    http_status: number | null;
+    duration_ms: number;
+    item_count: number;
+    new_item_count: number;
+    /** Page not modified since the last processed fetch - parse skipped */
+    unchanged: boolean;
+    /** Proxy that served the main request, null for direct requests */
+    proxy: string | null;
+    error: string | null;
+    started_at: string;
+    created_at: string;
+}
+
+/**
+ * Input type for recording a fetch run (without auto-generated fields)
+ */
+export type SourceFetchRunInput = Omit<SourceFetchRun, "id" | "created_at">;
+
+/**
+ * Why a source was reported to the admin chat
+ * - failing: the last runs all failed
+ * - zero_items: a source that used to return items returns none
+ */
+export type SourceAlertReason = "failing" | "zero_items";
+
+/**
+ * Open source alert entity
+ * Exists while a reported source stays broken
+ */
+export interface SourceAlert {
+    tool_id: string;
+    reason: SourceAlertReason;
+    message: string | null;
+    opened_at: string;
+}
+
+/**
+ * HTTP cache entry
+ * Validators of the last processed fetch of a news page, per tool
+ */
+export interface HttpCacheEntry {
+    tool_id: string;
+    url: string;
+    etag: string | null;
+    last_modified: string | null;
+    /** SHA-256 of the body, compared when the server sends no validators */
+    content_hash: string | null;
+    updated_at: string;
+}
+
+/**
+ * Input type for saving an HTTP cache entry (without auto-generated fields)
+ */
+export type HttpCacheEntryInput = Omit<HttpCacheEntry, "updated_at">;
+
+/**
+ * Item of a tool's listing that was already seen
+ * New content is what is listed now but not in this set
+ */
+export interface ToolSeenItem {
+    tool_id: string;
+    /** Feed guid when the source has one, otherwise the item URL */
+    item_key: string;
+    url: string;
+    first_seen_at: string;
+}
+
+/**
+ * Input type for marking items seen (without auto-generated fields)
+ */
+export type ToolSeenItemInput = Omit<ToolSeenItem, "first_seen_at">;
+
+/**
+ * Quarantined news item entity
+ * A "new" item held back by the flood guard until it is reviewed
+ */
+export interface QuarantinedNewsItem {
+    id: number;
+    tool_id: string;
+    run_id: string;
+    /** Why the run was flagged, e.g. "12 new items, usually at most 2" */
+    reason: string;
+    /** The item as it would have been inserted into news_items */
+    item: NewsItemInput;
+    created_at: string;
+}
+
+/**
+ * Input type for quarantining items (without auto-generated fields)
+ */
+export type QuarantinedNewsItemInput = Omit<
+    QuarantinedNewsItem,
+    "id" | "created_at"
+>;
+
 /**
  * Parsed news item from fetcher (before saving to DB)
  */
@@ -96,8 +323,15 @@ export interface ParsedNewsItem {
     title: string;
     url: string;
     publishedAt: Date | null;
+    /** Trust in publishedAt: 1 (default) = explicit, lower = inferred */
+    dateConfidence?: number;
     rawContent: string;
     snippet?: string;
+    tags?: string[];
+    /** Stable id from the source (RSS guid, Atom id, JSON Feed id) */
+    externalId?: string;
+    author?: string;
+    imageUrl?: string;
 }
 
 /**
@@ -122,12 +356,17 @@ export interface Database {
                     title: string;
                     url: string;
                     published_at?: string | null;
+                    published_at_confidence?: number | null;
                     raw_content?: string | null;
                     snippet?: string | null;
                     importance?: "high" | "medium" | "low" | null;
                     tags?: string[];
+                    external_id?: string | null;
+                    author?: string | null;
+                    image_url?: string | null;
                     lang?: string | null;
                     hash?: string | null;
+                    digest_date?: string | null;
                     id?: number;
                     created_at?: string;
                 };
@@ -145,6 +384,43 @@ export interface Database {
                 };
                 Update: Partial<Omit<DailyDigest, "id">>;
             };
+            source_fetch_runs: {
+                Row: SourceFetchRun;
+                Insert: SourceFetchRunInput & {
+                    id?: number;
+                    created_at?: string;
+                };
+                Update: Partial<Omit<SourceFetchRun, "id">>;
+            };
+            source_alerts: {
+                Row: SourceAlert;
+                Insert: Omit<SourceAlert, "opened_at"> & {
+                    opened_at?: string;
+                };
+                Update: Partial<Omit<SourceAlert, "tool_id">>;
+            };
+            http_cache: {
+                Row: HttpCacheEntry;
+                Insert: HttpCacheEntryInput & {
+                    updated_at?: string;
+                };
+                Update: Partial<Omit<HttpCacheEntry, "tool_id" | "url">>;
+            };
+            tool_seen_items: {
+                Row: ToolSeenItem;
+                Insert: ToolSeenItemInput & {
+                    first_seen_at?: string;
+                };
+                Update: Partial<Omit<ToolSeenItem, "tool_id" | "item_key">>;
+            };
+            quarantined_news_items: {
+                Row: QuarantinedNewsItem;
+                Insert: QuarantinedNewsItemInput & {
+                    id?: number;
+                    created_at?: string;
+                };
+                Update: Partial<Omit<QuarantinedNewsItem, "id">>;
+            };
         };
     };
 }
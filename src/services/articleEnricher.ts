@@ -0,0 +1,373 @@
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import { config } from "../config/env.js";
+import type { NewsItemInput, Tool } from "../db/types.js";
+import type { Fetcher } from "./parsers/types.js";
+import {
+    parseDate,
+    cleanText,
+    createSnippet,
+    titleFromUrl,
+} from "./parsers/utils.js";
+import { getFetcher } from "./parsers/fetchers.js";
+import { canonicalizeUrl, findCanonicalUrl } from "./parsers/canonicalUrl.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+
+/**
+ * Items with less content than this are considered empty and get enriched
+ */
+const MIN_CONTENT_LENGTH = 200;
+
+/**
+ * Upper bound for the stored article text
+ */
+const MAX_CONTENT_LENGTH = 8000;
+
+/**
+ * Elements that never contain the article body
+ */
+const NOISE_SELECTOR =
+    "script, style, noscript, template, svg, iframe, form, nav, header, footer, aside, button";
+
+/**
+ * Class/id hints used to weight candidate containers
+ */
+const POSITIVE_HINTS = /article|body|content|entry|main|post|prose|story|text/i;
+const NEGATIVE_HINTS =
+    /comment|footer|sidebar|nav|menu|share|social|related|promo|newsletter|subscribe|banner|cookie|modal|\bads?\b/i;
+
+/**
+ * Dates below this confidence (relative, yearless, from the URL) are
+ * replaced by the article's own publish date
+ */
+const TRUSTED_DATE_CONFIDENCE = 0.9;
+
+/**
+ * Meta tags holding the publish date, in order of preference
+ */
+const PUBLISHED_TIME_SELECTORS = [
+    "meta[property='article:published_time']",
+    "meta[property='og:published_time']",
+    "meta[itemprop='datePublished']",
+    "meta[name='date']",
+    "meta[name='publish-date']",
+];
+
+/**
+ * Main content extracted from an article page
+ */
+export interface ExtractedArticle {
+    /** og:title, then <title> */
+    title: string;
+    text: string;
+    description: string;
+    publishedAt: Date | null;
+    /** Same-site <link rel="canonical"> */
+    canonicalUrl: string | null;
+}
+
+/**
+ * Enrichment options
+ */
+export interface EnrichOptions {
+    /** Maximum number of pages fetched per run (default: ENRICH_MAX_ITEMS) */
+    maxItems?: number;
+    /** Number of pages fetched in parallel (default: ENRICH_CONCURRENCY) */
+    concurrency?: number;
+    /** Tools of the items - article pages use the tool's fetch backend */
+    tools?: Tool[];
+    /** Epoch ms after which no more pages are fetched (default: none) */
+    deadline?: number;
+}
+
+/**
+ * Fill raw_content, snippet and missing or inferred published_at for
+ * items that arrived from listing pages with only a title, and the real
+ * title for items that had only a URL
+ *
+ * Items are updated in place, including url when the page declares a
+ * same-site canonical URL; failures leave the item unchanged. Once the
+ * deadline passes, remaining items are left as they are.
+ * Returns the number of items that were enriched
+ */
+export async function enrichNewsItems(
+    items: NewsItemInput[],
+    options: EnrichOptions = {}
+): Promise<number> {
+    const {
+        maxItems = config.enrichMaxItems,
+        concurrency = config.enrichConcurrency,
+        tools = [],
+        deadline = Infinity,
+    } = options;
+    const toolsById = new Map(tools.map((tool) => [tool.id, tool]));
+
+    const candidates = items.filter(needsEnrichment);
+    if (candidates.length === 0) return 0;
+
+    const selected = candidates.slice(0, maxItems);
+    if (candidates.length > selected.length) {
+        console.log(
+            `[articleEnricher] ${candidates.length} items need content, enriching first ${selected.length}`
+        );
+    } else {
+        console.log(
+            `[articleEnricher] Enriching ${selected.length} items without content`
+        );
+    }
+
+    let skipped = 0;
+    const results = await mapWithConcurrency(
+        selected,
+        concurrency,
+        async (item) => {
+            if (Date.now() >= deadline) {
+                skipped++;
+                return false;
+            }
+            return enrichNewsItem(
+                item,
+                getFetcher(toolsById.get(item.tool_id))
+            );
+        }
+    );
+    const enrichedCount = results.filter(Boolean).length;
+
+    if (skipped > 0) {
+        console.log(
+            `[articleEnricher] Run deadline reached, skipped ${skipped} items`
+        );
+    }
+
+    console.log(
+        `[articleEnricher] Enriched ${enrichedCount}/${selected.length} items`
+    );
+    return enrichedCount;
+}
+
+/**
+ * Fetch one article page and merge the extracted data into the item
+ */
+async function enrichNewsItem(
+    item: NewsItemInput,
+    fetcher: Fetcher
+): Promise<boolean> {
+    const result = await fetcher.fetch(item.url, { retryCount: 0 });
+    if (!result.ok) {
+        console.log(
+            `[articleEnricher] Failed to fetch ${item.url}: ${result.error}`
+        );
+        return false;
+    }
+    if (result.kind && result.kind !== "html") {
+        console.log(
+            `[articleEnricher] Skipping ${item.url}: ${result.kind}, not an HTML page`
+        );
+        return false;
+    }
+
+    try {
+        const article = extractArticle(result.text, item.url);
+        const currentContent = item.raw_content?.trim() ?? "";
+        let changed = false;
+
+        // Sitemap items keep the URL slug title when their page was not read
+        if (article.title && item.title === titleFromUrl(item.url)) {
+            item.title = article.title;
+            changed = true;
+        }
+
+        // Anchored items (changelog entries) share their page's canonical
+        if (
+            article.canonicalUrl &&
+            !item.url.includes("#") &&
+            canonicalizeUrl(article.canonicalUrl) !== canonicalizeUrl(item.url)
+        ) {
+            item.url = article.canonicalUrl;
+            changed = true;
+        }
+
+        if (article.text.length > currentContent.length) {
+            item.raw_content = article.text;
+            changed = true;
+        }
+
+        const summary = article.description || item.raw_content || "";
+        if (!item.snippet?.trim() && summary) {
+            item.snippet = createSnippet(summary);
+            changed = true;
+        }
+
+        const dateIsGuess =
+            !item.published_at ||
+            (item.published_at_confidence ?? 1) < TRUSTED_DATE_CONFIDENCE;
+        if (dateIsGuess && article.publishedAt) {
+            item.published_at = article.publishedAt.toISOString();
+            item.published_at_confidence = 1;
+            changed = true;
+        }
+
+        return changed;
+    } catch (error) {
+        console.error(
+            `[articleEnricher] Extract error for ${item.url}:`,
+            error
+        );
+        return false;
+    }
+}
+
+function needsEnrichment(item: NewsItemInput): boolean {
+    return (item.raw_content?.trim().length ?? 0) < MIN_CONTENT_LENGTH;
+}
+
+/**
+ * Extract the title, main text, description, publish date and canonical
+ * URL from an article page
+ */
+export function extractArticle(
+    html: string,
+    pageUrl: string
+): ExtractedArticle {
+    const $ = cheerio.load(html);
+
+    // Read metadata before noise removal - JSON-LD lives in <script>
+    const title = cleanText(
+        $("meta[property='og:title']").attr("content") ||
+            $("title").first().text()
+    );
+    const description = cleanText(
+        $("meta[property='og:description']").attr("content") ||
+            $("meta[name='description']").attr("content") ||
+            ""
+    );
+    const publishedAt = extractPublishedAt($);
+    const canonicalUrl = findCanonicalUrl($, pageUrl);
+
+    $(NOISE_SELECTOR).remove();
+
+    const $body = findArticleBody($);
+    const text = $body ? collectText($, $body) : "";
+
+    return {
+        title,
+        text: text.substring(0, MAX_CONTENT_LENGTH),
+        description,
+        publishedAt,
+        canonicalUrl,
+    };
+}
+
+/**
+ * Pick the element holding the article body
+ * Readability-style: every paragraph scores its parent (and half its
+ * grandparent) by length and commas; class/id hints and link density
+ * adjust the totals, the highest-scoring container wins
+ */
+function findArticleBody(
+    $: cheerio.CheerioAPI
+): cheerio.Cheerio<Element> | null {
+    const scores = new Map<Element, number>();
+
+    const addScore = (el: Element | null, score: number): void => {
+        if (!el || el.type !== "tag") return;
+        if (!scores.has(el)) {
+            scores.set(el, classWeight($(el)));
+        }
+        scores.set(el, (scores.get(el) ?? 0) + score);
+    };
+
+    $("p, pre, td, li").each((_, el) => {
+        const text = cleanText($(el).text());
+        if (text.length < 25) return;
+
+        const score =
+            1 + text.split(",").length + Math.min(text.length / 100, 3);
+        const parent = el.parent as Element | null;
+        addScore(parent, score);
+        addScore((parent?.parent as Element | null) ?? null, score / 2);
+    });
+
+    let best: Element | null = null;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity($, el));
+        if (adjusted > bestScore) {
+            best = el;
+            bestScore = adjusted;
+        }
+    }
+
+    if (best) return $(best);
+
+    // No scorable paragraphs - fall back to semantic containers
+    const $semantic = $("article, main, [role='main']").first();
+    return $semantic.length ? $semantic : null;
+}
+
+function classWeight($el: cheerio.Cheerio<Element>): number {
+    const hints = `${$el.attr("class") ?? ""} ${$el.attr("id") ?? ""}`;
+    let weight = 0;
+    if (POSITIVE_HINTS.test(hints)) weight += 25;
+    if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+    if ($el.is("article, main")) weight += 10;
+    return weight;
+}
+
+/**
+ * Share of the element's text that sits inside links
+ */
+function linkDensity($: cheerio.CheerioAPI, el: Element): number {
+    const textLength = cleanText($(el).text()).length;
+    if (textLength === 0) return 1;
+
+    let linkLength = 0;
+    $(el)
+        .find("a")
+        .each((_, a) => {
+            linkLength += cleanText($(a).text()).length;
+        });
+    return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * Join block-level text of the article body into paragraphs
+ */
+function collectText(
+    $: cheerio.CheerioAPI,
+    $body: cheerio.Cheerio<Element>
+): string {
+    const blocks: string[] = [];
+
+    $body.find("h1, h2, h3, h4, p, li, pre, blockquote").each((_, el) => {
+        // Nested blocks are collected on their own
+        if ($(el).parents("li, blockquote").length > 0) return;
+
+        const text = cleanText($(el).text());
+        if (text) blocks.push(text);
+    });
+
+    return blocks.length > 0 ? blocks.join("\n\n") : cleanText($body.text());
+}
+
+function extractPublishedAt($: cheerio.CheerioAPI): Date | null {
+    for (const selector of PUBLISHED_TIME_SELECTORS) {
+        const date = parseDate($(selector).attr("content") ?? "");
+        if (date) return date;
+    }
+
+    let jsonLdDate: Date | null = null;
+    $("script[type='application/ld+json']").each((_, el) => {
+        const match = /"datePublished"\s*:\s*"([^"]+)"/.exec(
+            $(el).contents().text()
+        );
+        jsonLdDate = match ? parseDate(match[1]) : null;
+        return jsonLdDate ? false : undefined;
+    });
+    if (jsonLdDate) return jsonLdDate;
+
+    const datetime = $("article time[datetime], time[datetime]")
+        .first()
+        .attr("datetime");
+    return parseDate(datetime ?? "");
+}
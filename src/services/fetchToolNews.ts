@@ -1,5 +1,25 @@
-import type { Tool, ParsedNewsItem } from "../db/types.js";
-import { findParser, getAllParsers } from "./parsers/index.js";
+import type { Tool } from "../db/types.js";
+import {
+    dropFailedFeed,
+    findParser,
+    getAllParsers,
+    resolveNewsUrl,
+} from "./parsers/index.js";
+import type { ParseOutcome, ParseStatus } from "./parsers/types.js";
+import {
+    createDiagnostics,
+    describeDiagnostics,
+    parseFailure,
+} from "./parsers/diagnostics.js";
+
+/**
+ * Outcome for a tool without a news URL - nothing to fetch, not a failure
+ */
+function noNewsUrl(): ParseOutcome {
+    const diagnostics = createDiagnostics();
+    diagnostics.message = "No news_url configured";
+    return { items: [], diagnostics };
+}
 
 /**
  * Fetch news for a specific AI tool
@@ -10,61 +30,79 @@ import { findParser, getAllParsers } from "./parsers/index.js";
  * 3. Fetches and parses the news
  * 4. Filters by publish date
  *
+ * A discovered feed that fails is dropped and news_url parsed instead
+ *
  * @param tool The tool to fetch news for
  * @param since Fetch news published after this date
- * @returns Array of parsed news items
+ * @returns Parsed news items with parse diagnostics
  */
 export async function fetchToolNews(
     tool: Tool,
     since: Date
-): Promise<ParsedNewsItem[]> {
+): Promise<ParseOutcome> {
     console.log(
         `[fetchToolNews] Fetching news for ${tool.name} since ${since.toISOString()}`
     );
 
     // Check if tool has a news URL
-    if (!tool.news_url) {
+    const newsUrl = resolveNewsUrl(tool);
+    if (!newsUrl) {
         console.log(`[fetchToolNews] No news_url configured for ${tool.name}`);
-        return [];
+        return noNewsUrl();
     }
 
+    let outcome: ParseOutcome;
     try {
         // Find the best parser for this URL
-        const parser = findParser(tool.news_url);
+        const parser = findParser(newsUrl, tool);
         console.log(`[fetchToolNews] Using parser: ${parser.name}`);
 
         // Parse the news
-        const news = await parser.parse(tool.news_url, tool, since);
+        outcome = await parser.parse(newsUrl, tool, since);
+        outcome.diagnostics.parser = parser.name;
+        await parser.completeItems?.(outcome.items, tool);
 
         console.log(
-            `[fetchToolNews] Found ${news.length} news items for ${tool.name}`
+            `[fetchToolNews] Found ${outcome.items.length} news items for ${tool.name} (${describeDiagnostics(outcome.diagnostics)})`
         );
-        return news;
     } catch (error) {
         console.error(
             `[fetchToolNews] Error fetching news for ${tool.name}:`,
             error instanceof Error ? error.message : error
         );
-        return [];
+        const { items, diagnostics } = parseFailure(error);
+        outcome = { items, diagnostics };
     }
+
+    const retryTool = await dropFailedFeed(tool, outcome.diagnostics);
+    return retryTool ? fetchToolNews(retryTool, since) : outcome;
 }
 
 /**
  * Fetch news using multiple parsers as fallback
- * If the primary parser fails or returns no results, try alternatives
+ * If the primary parser fails or returns no results, try alternatives.
+ * When none succeeds, the outcome of the first parser tried is returned
  */
 export async function fetchToolNewsWithFallback(
     tool: Tool,
     since: Date
-): Promise<ParsedNewsItem[]> {
-    if (!tool.news_url) {
-        return [];
+): Promise<ParseOutcome> {
+    const newsUrl = resolveNewsUrl(tool);
+    if (!newsUrl) {
+        return noNewsUrl();
     }
 
-    const parsers = getAllParsers();
+    // A per-tool selector spec is tried before the URL-matched parsers
+    const toolParser = tool.parser_config?.selectors
+        ? findParser(newsUrl, tool)
+        : null;
+    const parsers = toolParser
+        ? [toolParser, ...getAllParsers()]
+        : getAllParsers();
+    let firstOutcome: ParseOutcome | null = null;
 
     for (const parser of parsers) {
-        if (!parser.canParse(tool.news_url)) {
+        if (parser !== toolParser && !parser.canParse(newsUrl)) {
             continue;
         }
 
@@ -72,13 +110,15 @@ export async function fetchToolNewsWithFallback(
             console.log(
                 `[fetchToolNews] Trying parser: ${parser.name} for ${tool.name}`
             );
-            const news = await parser.parse(tool.news_url, tool, since);
+            const outcome = await parser.parse(newsUrl, tool, since);
+            outcome.diagnostics.parser = parser.name;
+            firstOutcome ??= outcome;
 
-            if (news.length > 0) {
+            if (outcome.items.length > 0) {
                 console.log(
-                    `[fetchToolNews] Success with ${parser.name}: ${news.length} items`
+                    `[fetchToolNews] Success with ${parser.name}: ${outcome.items.length} items`
                 );
-                return news;
+                return outcome;
             }
         } catch (error) {
             console.error(
@@ -90,28 +130,45 @@ export async function fetchToolNewsWithFallback(
     }
 
     console.log(`[fetchToolNews] No parsers returned results for ${tool.name}`);
-    return [];
+    if (firstOutcome) return firstOutcome;
+
+    const { items, diagnostics } = parseFailure(
+        new Error(`No parser can handle ${newsUrl}`)
+    );
+    return { items, diagnostics };
 }
 
 /**
  * Check if a tool's news URL is reachable and parseable
  * Useful for validation and debugging
  */
-export async function validateToolNewsUrl(
-    tool: Tool
-): Promise<{ valid: boolean; parser: string; error?: string }> {
-    if (!tool.news_url) {
+export async function validateToolNewsUrl(tool: Tool): Promise<{
+    valid: boolean;
+    parser: string;
+    status?: ParseStatus;
+    error?: string;
+}> {
+    const newsUrl = resolveNewsUrl(tool);
+    if (!newsUrl) {
         return { valid: false, parser: "", error: "No news_url configured" };
     }
 
-    const parser = findParser(tool.news_url);
+    const parser = findParser(newsUrl, tool);
 
     try {
-        const news = await parser.parse(tool.news_url, tool, new Date(0)); // Get all news
+        const { items, diagnostics } = await parser.parse(
+            newsUrl,
+            tool,
+            new Date(0) // Get all news
+        );
+        const valid = items.length > 0;
         return {
-            valid: news.length > 0,
+            valid,
             parser: parser.name,
-            error: news.length === 0 ? "No articles found" : undefined,
+            status: diagnostics.status,
+            error: valid
+                ? undefined
+                : `No articles found: ${describeDiagnostics(diagnostics)}`,
         };
     } catch (error) {
         return {
@@ -0,0 +1,228 @@
+/**
+ * Flood Guard Service
+ * Holds back bursts of "new" items that look like a site redesign or a
+ * URL scheme change rather than real news
+ */
+
+import { config } from "../config/env.js";
+import { getSourceFetchRuns } from "../db/queries/sourceFetchRuns.js";
+import { insertQuarantinedItems } from "../db/queries/quarantinedNewsItems.js";
+import { sendTelegramMessage } from "./telegramPublisher.js";
+import { getDaysAgo } from "../utils/dates.js";
+import type { NewsItemInput, SourceFetchRun, Tool } from "../db/types.js";
+
+/**
+ * Fetch history that tells the usual number of new items of a tool
+ */
+const HISTORY_DAYS = 30;
+
+/**
+ * Items published this long before the last check still count as fresh:
+ * listings and feeds often show posts a day or two late
+ */
+const STALE_GRACE_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * New items needed before their dates are looked at - a single old post
+ * showing up is not a redesign
+ */
+const MIN_STALE_ITEMS = 3;
+
+/**
+ * Dates guessed from URLs or relative text are not trusted here
+ */
+const MIN_DATE_CONFIDENCE = 0.8;
+
+/**
+ * Options of the flood check
+ */
+export interface FloodOptions {
+    /** New items needed before the volume check applies */
+    minItems: number;
+    /** How many times the usual count of new items is still normal */
+    historyFactor: number;
+}
+
+/**
+ * Tool whose new items were quarantined
+ */
+export interface FloodedTool {
+    tool: Tool;
+    count: number;
+    reason: string;
+}
+
+/**
+ * Result of a flood guard pass
+ */
+export interface FloodGuardResult {
+    /** Items of unflagged tools, to be inserted */
+    accepted: NewsItemInput[];
+    flagged: FloodedTool[];
+}
+
+/**
+ * Decide whether the new items of one tool look like a flood
+ * - volume: at least minItems and more than historyFactor times the most
+ *   new items of any run in the history
+ * - stale: most items (with trusted dates) were published before the last
+ *   successful check of the tool
+ *
+ * @param items New items of one tool
+ * @param runs Fetch history of the tool, newest first
+ * @returns Reason for quarantine, or null when the items look normal
+ */
+export function detectFlood(
+    items: NewsItemInput[],
+    runs: SourceFetchRun[],
+    options: FloodOptions
+): string | null {
+    const usual = Math.max(0, ...runs.map((run) => run.new_item_count));
+    if (
+        items.length >= options.minItems &&
+        items.length > options.historyFactor * usual
+    ) {
+        return `${items.length} new items, usually at most ${usual}`;
+    }
+
+    const lastCheck = runs.find((run) => run.status === "ok")?.started_at;
+    if (!lastCheck || items.length < MIN_STALE_ITEMS) return null;
+
+    const cutoff = Date.parse(lastCheck) - STALE_GRACE_MS;
+    const stale = items.filter(
+        (item) =>
+            item.published_at &&
+            (item.published_at_confidence ?? 1) >= MIN_DATE_CONFIDENCE &&
+            Date.parse(item.published_at) < cutoff
+    ).length;
+
+    if (stale > items.length / 2) {
+        return `${stale} of ${items.length} new items published before the last check (${lastCheck.substring(0, 10)})`;
+    }
+
+    return null;
+}
+
+/**
+ * Quarantine the new items of tools whose run looks like a flood
+ *
+ * Flagged items go to quarantined_news_items for manual review
+ * (scripts/review-quarantine.ts) and TELEGRAM_ADMIN_CHAT_ID is notified.
+ * The tools' markers still advance after the insert, which re-baselines
+ * them: the quarantined items are not reported as new again
+ *
+ * @param items New items of all tools in this run
+ * @param tools Tools of the run
+ * @param runId Pipeline run identifier
+ * @returns Items to insert and the flagged tools
+ * @throws Error if the history can't be read or the items can't be quarantined
+ */
+export async function guardAgainstFloods(
+    items: NewsItemInput[],
+    tools: Tool[],
+    runId: string
+): Promise<FloodGuardResult> {
+    const options: FloodOptions = {
+        minItems: config.floodMinItems,
+        historyFactor: config.floodHistoryFactor,
+    };
+
+    const byTool = new Map<string, NewsItemInput[]>();
+    for (const item of items) {
+        const toolItems = byTool.get(item.tool_id) ?? [];
+        toolItems.push(item);
+        byTool.set(item.tool_id, toolItems);
+    }
+
+    // Neither check can fire below these counts - skip the history query
+    const minCount = Math.min(options.minItems, MIN_STALE_ITEMS);
+    if (
+        !config.floodGuardEnabled ||
+        ![...byTool.values()].some((toolItems) => toolItems.length >= minCount)
+    ) {
+        return { accepted: items, flagged: [] };
+    }
+
+    const runs = await getSourceFetchRuns(
+        getDaysAgo(HISTORY_DAYS).toISOString()
+    );
+
+    const flagged: FloodedTool[] = [];
+    for (const tool of tools) {
+        const toolItems = byTool.get(tool.id);
+        if (!toolItems || toolItems.length < minCount) continue;
+
+        const reason = detectFlood(
+            toolItems,
+            runs.filter((run) => run.tool_id === tool.id),
+            options
+        );
+        if (reason) {
+            flagged.push({ tool, count: toolItems.length, reason });
+        }
+    }
+
+    if (flagged.length === 0) {
+        return { accepted: items, flagged };
+    }
+
+    const flaggedIds = new Set(flagged.map(({ tool }) => tool.id));
+    await insertQuarantinedItems(
+        flagged.flatMap(({ tool, reason }) =>
+            (byTool.get(tool.id) ?? []).map((item) => ({
+                tool_id: tool.id,
+                run_id: runId,
+                reason,
+                item,
+            }))
+        )
+    );
+
+    for (const { tool, count, reason } of flagged) {
+        console.warn(
+            `[floodGuard] Quarantined ${count} items of ${tool.name}: ${reason}`
+        );
+    }
+    await notifyFloods(flagged);
+
+    return {
+        accepted: items.filter((item) => !flaggedIds.has(item.tool_id)),
+        flagged,
+    };
+}
+
+/**
+ * Tell the admin chat about quarantined items; the items are already
+ * saved, so a failed message is only logged
+ */
+async function notifyFloods(flagged: FloodedTool[]): Promise<void> {
+    const { telegramAdminChatId } = config;
+    if (!telegramAdminChatId) return;
+
+    const lines = flagged.map(
+        ({ tool, count, reason }) =>
+            `🚧 ${tool.name}: ${count} items quarantined - ${reason}`
+    );
+    const text = [
+        "News held back for review",
+        "",
+        ...lines,
+        "",
+        "Review with: npx tsx scripts/review-quarantine.ts",
+    ].join("\n");
+
+    try {
+        const response = await sendTelegramMessage({
+            chatId: telegramAdminChatId,
+            text,
+        });
+        if (!response.ok) {
+            throw new Error(response.description ?? "unknown error");
+        }
+    } catch (error) {
+        console.warn(
+            "[floodGuard] Failed to notify admin chat:",
+            error instanceof Error ? error.message : error
+        );
+    }
+}
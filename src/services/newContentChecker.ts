@@ -1,6 +1,35 @@
-import type { Tool, ParsedNewsItem } from "../db/types.js";
+import type {
+    Tool,
+    BackfillPolicy,
+    ParsedNewsItem,
+    HttpCacheEntryInput,
+    ToolSeenItemInput,
+} from "../db/types.js";
+import { config } from "../config/env.js";
 import { updateToolLastParsedUrl } from "../db/queries/tools.js";
-import { findParser } from "./parsers/index.js";
+import {
+    getToolSeenItems,
+    markToolItemsSeen,
+} from "../db/queries/toolSeenItems.js";
+import { dropFailedFeed, findParser, resolveNewsUrl } from "./parsers/index.js";
+import { getFetcher } from "./parsers/fetchers.js";
+import { canonicalizeUrl } from "./parsers/canonicalUrl.js";
+import {
+    commitHttpCache,
+    fetchIfChanged,
+    withPrefetched,
+} from "./parsers/httpCache.js";
+import type {
+    NewsParser,
+    ParseDiagnostics,
+    ParseOutcome,
+} from "./parsers/types.js";
+import {
+    createDiagnostics,
+    describeDiagnostics,
+    mergeSkipped,
+    parseFailure,
+} from "./parsers/diagnostics.js";
 
 /**
  * Result of checking for new content
@@ -10,26 +39,88 @@ export interface NewContentCheckResult {
     newItems: ParsedNewsItem[];
     latestUrl: string | null;
     previousUrl: string | null;
+    /** How the listing was parsed - explains an empty result */
+    diagnostics: ParseDiagnostics;
+    /** Validators of the listing page, saved by commitNewContent */
+    httpCache?: HttpCacheEntryInput | null;
+    /** Every listed item, marked seen by commitNewContent */
+    seenItems?: ToolSeenItemInput[];
+    /** Older items stored on a first run by the backfill policy */
+    backfillItems?: ParsedNewsItem[];
 }
 
 /**
- * Check if a tool has new content by comparing the latest parsed URL
- * with what we have stored in the database.
+ * Options of a new content check
+ */
+export interface NewContentCheckOptions {
+    /** First-run backfill for this run (default: tools.parser_config.backfill) */
+    backfill?: BackfillPolicy;
+}
+
+/**
+ * Canonical form of an item URL for comparisons
+ * Fragments are kept - changelog entries are anchors on one page
+ */
+function comparableUrl(url: string): string {
+    return canonicalizeUrl(url, undefined, { keepFragment: true });
+}
+
+/**
+ * Identity of an item in the seen set: feed guid when present, else URL
+ */
+function itemKey(item: ParsedNewsItem): string {
+    return item.externalId ?? comparableUrl(item.url);
+}
+
+/**
+ * An item is known when its guid or its URL was seen before, so a source
+ * that starts (or stops) sending guids does not repeat old posts
+ */
+function isSeen(item: ParsedNewsItem, seen: Set<string>): boolean {
+    return seen.has(itemKey(item)) || seen.has(comparableUrl(item.url));
+}
+
+/**
+ * Whether an item is the one last_parsed_url points at
+ */
+function isLastParsed(item: ParsedNewsItem, tool: Tool): boolean {
+    return (
+        tool.last_parsed_url !== null &&
+        comparableUrl(item.url) === comparableUrl(tool.last_parsed_url)
+    );
+}
+
+/**
+ * Check if a tool has new content: items listed now that are not in the
+ * tool's seen set (tool_seen_items).
  *
  * This approach is more reliable than date-based checking because:
  * 1. Some sites don't have proper dates on articles
  * 2. Dates can be in different formats/timezones
  * 3. We want to detect ANY new content, not just recent dated content
  *
+ * Comparing sets rather than the single latest URL also survives sites
+ * that reorder posts, pin an old post or delete the post seen last.
+ *
+ * On the first run only the latest item is new content; the backfill
+ * policy can add older items as backfillItems.
+ *
  * @param tool The tool to check for new content
+ * @param options Check options
  * @returns Object with new items and metadata
+ * @throws Error if the backfill policy has an invalid since date
  */
 export async function checkForNewContent(
-    tool: Tool
+    tool: Tool,
+    options: NewContentCheckOptions = {}
 ): Promise<NewContentCheckResult> {
     console.log(`[newContentChecker] Checking for new content: ${tool.name}`);
 
-    if (!tool.news_url) {
+    const backfill = options.backfill ?? tool.parser_config?.backfill;
+    if (backfill?.since !== undefined) parseBackfillSince(backfill.since);
+
+    const newsUrl = resolveNewsUrl(tool);
+    if (!newsUrl) {
         console.log(
             `[newContentChecker] No news_url configured for ${tool.name}`
         );
@@ -38,80 +129,120 @@ export async function checkForNewContent(
             newItems: [],
             latestUrl: null,
             previousUrl: tool.last_parsed_url,
+            diagnostics: createDiagnostics(),
         };
     }
 
     try {
         // Find the best parser for this URL
-        const parser = findParser(tool.news_url);
+        const parser = findParser(newsUrl, tool);
         console.log(`[newContentChecker] Using parser: ${parser.name}`);
 
-        // Parse all available news (without date filter)
-        // We use a very old date to get all items
-        const allNews = await parser.parse(
-            tool.news_url,
-            tool,
-            new Date(0) // Get all available items
-        );
+        // Conditional request for the listing page: if it did not change
+        // since the last processed fetch, there is nothing new to parse
+        let httpCache: HttpCacheEntryInput | null = null;
+        let seen = new Set<string>();
+        let outcome: ParseOutcome;
 
-        if (allNews.length === 0) {
-            console.log(`[newContentChecker] No news found for ${tool.name}`);
-            return {
-                hasNewContent: false,
-                newItems: [],
-                latestUrl: null,
-                previousUrl: tool.last_parsed_url,
-            };
-        }
-
-        // Sort by URL or date to get consistent ordering (newest first)
-        // Most parsers already return items in reverse chronological order
-        const latestItem = allNews[0];
-        const latestUrl = latestItem.url;
+        if (parser.readsSourceUrl === false) {
+            seen = await loadSeenSet(tool);
+            outcome = await parseUntilKnown(
+                parser,
+                newsUrl,
+                tool,
+                seen,
+                backfill
+            );
+        } else {
+            // Fetch with the backend the parser reads the page with
+            const fetcher = getFetcher({
+                fetch_backend: parser.fetchBackend ?? tool.fetch_backend,
+                use_proxy: tool.use_proxy,
+            });
+            const check = await fetchIfChanged(newsUrl, tool.id, fetcher);
 
-        console.log(`[newContentChecker] Latest URL: ${latestUrl}`);
-        console.log(
-            `[newContentChecker] Previous URL: ${tool.last_parsed_url ?? "none"}`
-        );
+            if (check.unchanged) {
+                console.log(
+                    `[newContentChecker] ${tool.name} unchanged since last fetch (${check.result.notModified ? "304" : "same content"}), skipping parse`
+                );
+                const diagnostics = createDiagnostics(check.result);
+                diagnostics.parser = parser.name;
+                diagnostics.unchanged = true;
+                return {
+                    hasNewContent: false,
+                    newItems: [],
+                    latestUrl: tool.last_parsed_url,
+                    previousUrl: tool.last_parsed_url,
+                    diagnostics,
+                };
+            }
 
-        // If this is the first time parsing, or if the latest URL is different
-        if (!tool.last_parsed_url) {
-            console.log(
-                `[newContentChecker] First time parsing ${tool.name}, returning latest item only`
+            // Parse all available news (without date filter), following
+            // pagination until a known item shows up; the parser
+            // gets the page fetched above instead of downloading it again
+            httpCache = check.entry;
+            seen = await loadSeenSet(tool);
+            outcome = await withPrefetched(
+                fetcher.name,
+                newsUrl,
+                check.result,
+                () => parseUntilKnown(parser, newsUrl, tool, seen, backfill)
             );
-            // First time - just return the latest item to avoid flooding
-            return {
-                hasNewContent: true,
-                newItems: [latestItem],
-                latestUrl,
-                previousUrl: null,
-            };
         }
 
-        if (latestUrl === tool.last_parsed_url) {
+        const { items: allNews, diagnostics } = outcome;
+        diagnostics.parser = parser.name;
+        diagnostics.itemsFound = allNews.length;
+
+        // A discovered feed that stopped working: read news_url instead
+        const retryTool = await dropFailedFeed(tool, diagnostics);
+        if (retryTool) return checkForNewContent(retryTool, options);
+
+        if (allNews.length === 0) {
             console.log(
-                `[newContentChecker] No new content for ${tool.name} (URL unchanged)`
+                `[newContentChecker] No news found for ${tool.name}: ${describeDiagnostics(diagnostics)}`
             );
             return {
                 hasNewContent: false,
                 newItems: [],
-                latestUrl,
+                latestUrl: null,
                 previousUrl: tool.last_parsed_url,
+                diagnostics,
+                httpCache,
             };
         }
 
-        // Find all new items (items before the last parsed URL)
-        const newItems: ParsedNewsItem[] = [];
-        for (const item of allNews) {
-            if (item.url === tool.last_parsed_url) {
-                // We've reached the last known item, stop here
-                break;
+        // Every listed item is marked seen, new or not
+        const seenItems = toSeenItems(tool, allNews);
+
+        let newItems: ParsedNewsItem[];
+        let backfillItems: ParsedNewsItem[] = [];
+        if (seen.size > 0) {
+            newItems = allNews.filter((item) => !isSeen(item, seen));
+        } else {
+            // No seen set yet: fall back to the old last_parsed_url marker
+            // once, otherwise return only the latest item to avoid flooding
+            const markerIndex = allNews.findIndex((item) =>
+                isLastParsed(item, tool)
+            );
+            newItems =
+                markerIndex >= 0 ? allNews.slice(0, markerIndex) : [allNews[0]];
+            console.log(
+                `[newContentChecker] No seen items for ${tool.name} yet, ${markerIndex >= 0 ? "using last parsed URL" : "returning latest item only"}`
+            );
+            if (!tool.last_parsed_url) {
+                backfillItems = selectBackfill(allNews, backfill);
             }
-            newItems.push(item);
         }
 
+        // Details the listing lacks (sitemap titles) are read for new items only
+        await parser.completeItems?.([...newItems, ...backfillItems], tool);
+
+        // Most parsers return items in reverse chronological order
+        const latestUrl = (newItems[0] ?? allNews[0]).url;
+
         console.log(
-            `[newContentChecker] Found ${newItems.length} new items for ${tool.name}`
+            `[newContentChecker] Found ${newItems.length} new of ${allNews.length} listed items for ${tool.name}`
         );
 
         return {
@@ -119,26 +250,212 @@ export async function checkForNewContent(
             newItems,
             latestUrl,
             previousUrl: tool.last_parsed_url,
+            diagnostics,
+            httpCache,
+            seenItems,
+            backfillItems,
         };
     } catch (error) {
         console.error(
             `[newContentChecker] Error checking ${tool.name}:`,
             error instanceof Error ? error.message : error
         );
+        const { diagnostics } = parseFailure(error);
+        const retryTool = await dropFailedFeed(tool, diagnostics);
+        if (retryTool) return checkForNewContent(retryTool, options);
         return {
             hasNewContent: false,
             newItems: [],
             latestUrl: null,
             previousUrl: tool.last_parsed_url,
+            diagnostics,
         };
     }
 }
 
 /**
- * Check for new content and update the last parsed URL in the database
+ * Timestamp of a backfill since date
+ * Checked up front: an invalid date would silently drop every backfill
+ * item and page through PAGINATION_MAX_PAGES looking for an older one
+ *
+ * @param since ISO date (YYYY-MM-DD) or date-time
+ * @returns Milliseconds since the epoch
+ * @throws Error if the date is invalid
+ */
+export function parseBackfillSince(since: string): number {
+    const time = Date.parse(since);
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(since);
+    if (
+        Number.isNaN(time) ||
+        // Date.parse rolls 2025-02-30 over into March
+        (isDateOnly && new Date(time).toISOString().slice(0, 10) !== since)
+    ) {
+        throw new Error(
+            `Invalid backfill since date "${since}", expected YYYY-MM-DD`
+        );
+    }
+    return time;
+}
+
+/**
+ * Older items a first run keeps by the backfill policy; the latest item
+ * is new content and not part of it
+ */
+function selectBackfill(
+    items: ParsedNewsItem[],
+    policy: BackfillPolicy | undefined
+): ParsedNewsItem[] {
+    if (!policy) return [];
+
+    let selected = items.slice(1);
+    if (policy.since !== undefined) {
+        const since = parseBackfillSince(policy.since);
+        selected = selected.filter(
+            (item) => item.publishedAt && item.publishedAt.getTime() >= since
+        );
+    }
+    if (policy.items !== undefined) {
+        selected = selected.slice(0, Math.max(policy.items - 1, 0));
+    }
+    return selected;
+}
+
+/**
+ * Whether the listed items already cover the backfill policy, so a first
+ * run needs no further pages: N items are there, or an item older than
+ * the since date (listings are newest first)
+ */
+function coversBackfill(
+    items: ParsedNewsItem[],
+    policy: BackfillPolicy | undefined
+): boolean {
+    if (!policy || (policy.items === undefined && !policy.since)) return true;
+
+    if (policy.items !== undefined && items.length >= policy.items) {
+        return true;
+    }
+    if (policy.since !== undefined) {
+        const since = parseBackfillSince(policy.since);
+        return items.some(
+            (item) => item.publishedAt && item.publishedAt.getTime() < since
+        );
+    }
+    return false;
+}
+
+/**
+ * Load the seen set of a tool: keys and URLs of every item listed before
+ */
+async function loadSeenSet(tool: Tool): Promise<Set<string>> {
+    const seen = new Set<string>();
+    for (const item of await getToolSeenItems(tool.id)) {
+        seen.add(item.item_key);
+        seen.add(comparableUrl(item.url));
+    }
+    return seen;
+}
+
+/**
+ * Seen-set rows for the listed items, one per key
+ */
+function toSeenItems(tool: Tool, items: ParsedNewsItem[]): ToolSeenItemInput[] {
+    const rows = new Map<string, ToolSeenItemInput>();
+    for (const item of items) {
+        const key = itemKey(item);
+        if (!rows.has(key)) {
+            rows.set(key, { tool_id: tool.id, item_key: key, url: item.url });
+        }
+    }
+    return [...rows.values()];
+}
+
+/**
+ * Parse listing pages until a page that contains an already seen item
+ *
+ * Parsers without parsePage() return a single page. Walking stops at the
+ * page cap (PAGINATION_MAX_PAGES), on a repeated page URL, or on the first
+ * run once the backfill policy is covered (right after the first page
+ * without one). Before the seen set exists, last_parsed_url is the item
+ * looked for.
+ * Diagnostics come from the first page, with skip counts of all pages
+ */
+async function parseUntilKnown(
+    parser: NewsParser,
+    newsUrl: string,
+    tool: Tool,
+    seen: Set<string>,
+    backfill: BackfillPolicy | undefined
+): Promise<ParseOutcome> {
+    // We use a very old date to get all items
+    const since = new Date(0);
+
+    if (!parser.parsePage) {
+        return parser.parse(newsUrl, tool, since);
+    }
+
+    const allNews: ParsedNewsItem[] = [];
+    let diagnostics: ParseDiagnostics | null = null;
+    const listedUrls = new Set<string>();
+    const visitedPages = new Set<string>();
+    let pageUrl: string | null = newsUrl;
+    const isKnown = (item: ParsedNewsItem): boolean =>
+        seen.size > 0 ? isSeen(item, seen) : isLastParsed(item, tool);
+
+    while (pageUrl && !visitedPages.has(pageUrl)) {
+        if (visitedPages.size >= config.paginationMaxPages) {
+            console.warn(
+                `[newContentChecker] Page cap (${config.paginationMaxPages}) reached for ${tool.name} before a seen item, older items may be missing`
+            );
+            break;
+        }
+        visitedPages.add(pageUrl);
+
+        const page = await parser.parsePage(pageUrl, tool, since);
+        if (!diagnostics) {
+            diagnostics = page.diagnostics;
+        } else {
+            mergeSkipped(diagnostics, page.diagnostics);
+            if (page.diagnostics.status !== "ok") {
+                console.warn(
+                    `[newContentChecker] Page ${visitedPages.size} of ${tool.name} failed: ${describeDiagnostics(page.diagnostics)}`
+                );
+            }
+        }
+
+        for (const item of page.items) {
+            if (listedUrls.has(item.url)) continue;
+            listedUrls.add(item.url);
+            allNews.push(item);
+        }
+
+        if (
+            (seen.size === 0 &&
+                !tool.last_parsed_url &&
+                coversBackfill(allNews, backfill)) ||
+            page.items.some(isKnown) ||
+            page.items.length === 0
+        ) {
+            break;
+        }
+
+        pageUrl = page.nextPageUrl;
+        if (pageUrl) {
+            console.log(
+                `[newContentChecker] No seen item on page ${visitedPages.size}, following: ${pageUrl}`
+            );
+        }
+    }
+
+    return { items: allNews, diagnostics: diagnostics ?? createDiagnostics() };
+}
+
+/**
+ * Check for new content and commit it right away
+ * For standalone checks only: the pipeline commits with commitNewContent
+ * after the new items are stored
  *
  * @param tool The tool to check
- * @param updateDb Whether to update the database with the new URL (default: true)
+ * @param updateDb Whether to update the database (default: true)
  * @returns Check result
  */
 export async function checkAndUpdateLastParsed(
@@ -146,27 +463,55 @@ export async function checkAndUpdateLastParsed(
     updateDb: boolean = true
 ): Promise<NewContentCheckResult> {
     const result = await checkForNewContent(tool);
-
-    // Update the last parsed URL in the database if we found new content
-    if (updateDb && result.hasNewContent && result.latestUrl) {
-        await updateToolLastParsedUrl(tool.id, result.latestUrl);
+    if (updateDb) {
+        await commitNewContent(tool, result);
     }
-
     return result;
 }
 
 /**
- * Fetch only new news items for a tool (items that appeared since last check)
- * This is a drop-in replacement for fetchToolNews that uses URL-based detection
+ * Advance the tool's markers past a check: mark the listed items seen,
+ * save the listing page validators and the last parsed URL
  *
- * @param tool The tool to fetch news for
- * @param updateLastParsed Whether to update the last_parsed_url after fetching
- * @returns Array of new parsed news items
+ * Call only once the new items are stored - until then a crash or a
+ * failed insert leaves the markers behind and the next run finds the
+ * same items again (inserts are deduplicated by hash)
+ *
+ * @param tool The checked tool
+ * @param result Result of checkForNewContent for the tool
+ * @throws Error if the last parsed URL cannot be updated
  */
-export async function fetchNewToolNews(
+export async function commitNewContent(
     tool: Tool,
-    updateLastParsed: boolean = true
-): Promise<ParsedNewsItem[]> {
-    const result = await checkAndUpdateLastParsed(tool, updateLastParsed);
-    return result.newItems;
+    result: NewContentCheckResult
+): Promise<void> {
+    // Remember the listing page and its items only once it was parsed
+    // successfully, so a failed parse is retried on the next run
+    if (result.diagnostics.status === "ok") {
+        if (result.httpCache) {
+            await commitHttpCache(result.httpCache);
+        }
+        if (result.seenItems) {
+            await markSeen(tool, result.seenItems);
+        }
+    }
+
+    if (result.hasNewContent && result.latestUrl) {
+        await updateToolLastParsedUrl(tool.id, result.latestUrl);
+    }
+}
+
+/**
+ * Save the seen set; a failure only means these items are checked again
+ * next run (news inserts are deduplicated), so it does not fail the tool
+ */
+async function markSeen(tool: Tool, items: ToolSeenItemInput[]): Promise<void> {
+    try {
+        await markToolItemsSeen(items);
+    } catch (error) {
+        console.warn(
+            `[newContentChecker] Failed to mark items seen for ${tool.name}:`,
+            error instanceof Error ? error.message : error
+        );
+    }
 }
@@ -1,18 +1,38 @@
-import { createHash } from "crypto";
-import { getActiveTools } from "../db/queries/tools.js";
+import { createHash, randomUUID } from "crypto";
+import { getActiveTools, updateToolsDeferred } from "../db/queries/tools.js";
 import {
+    BACKFILL_DIGEST_DATE,
     insertNewsItems,
     getTodayNews,
     getNewsForDigest,
     markNewsAsDigested,
 } from "../db/queries/newsItems.js";
 import { saveDailyDigest, getDailyDigest } from "../db/queries/dailyDigest.js";
+import { insertSourceFetchRuns } from "../db/queries/sourceFetchRuns.js";
 import { fetchToolNews } from "./fetchToolNews.js";
-import { fetchNewToolNews } from "./newContentChecker.js";
+import { checkForNewContent, commitNewContent } from "./newContentChecker.js";
+import type { NewContentCheckResult } from "./newContentChecker.js";
+import { enrichNewsItems } from "./articleEnricher.js";
+import { guardAgainstFloods } from "./floodGuard.js";
+import type { FloodGuardResult } from "./floodGuard.js";
+import { applyUrlDates } from "./parsers/dateParser.js";
+import { resolveNewsUrl } from "./parsers/index.js";
+import { canonicalizeUrl } from "./parsers/canonicalUrl.js";
+import { describeDiagnostics } from "./parsers/diagnostics.js";
+import type { ParseOutcome } from "./parsers/types.js";
 import { generateDailyDigest } from "./digestGenerator.js";
 import { publishToTelegram } from "./telegramPublisher.js";
+import { processSourceAlerts } from "./sourceMonitor.js";
+import { config } from "../config/env.js";
 import { formatDateISO, getDaysAgo } from "../utils/dates.js";
-import type { Tool, NewsItemInput, ParsedNewsItem } from "../db/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import type {
+    Tool,
+    BackfillPolicy,
+    NewsItemInput,
+    ParsedNewsItem,
+    SourceFetchRunInput,
+} from "../db/types.js";
 
 /**
  * Result of running the daily digest pipeline
@@ -24,9 +44,16 @@ export interface PipelineResult {
     digestGenerated: boolean;
     digestFromCache: boolean;
     telegramPublished: boolean;
+    /** Tools skipped because the run deadline passed (fetched first next run) */
+    toolsDeferred: string[];
     errors: string[];
 }
 
+/**
+ * Time kept after the fetch phase for enrichment, inserts and the LLM digest
+ */
+const POST_FETCH_RESERVE_MS = 60_000;
+
 /**
  * Pipeline options
  */
@@ -45,6 +72,10 @@ export interface PipelineOptions {
     recentDays?: number;
     /** Use URL-based new content detection instead of date filtering (default: true) */
     useUrlBasedDetection?: boolean;
+    /** Time budget of the run in ms (default: config.pipelineBudgetMs) */
+    budgetMs?: number;
+    /** History stored for tools on their first run (default: per tool) */
+    backfill?: BackfillPolicy;
 }
 
 /**
@@ -53,16 +84,41 @@ export interface PipelineOptions {
 interface FetchNewsResult {
     totalNews: number;
     toolsProcessed: number;
+    toolsDeferred: string[];
     errors: string[];
 }
 
+/**
+ * Moment after which no new tool is started: the run budget minus the
+ * reserve for the steps after fetching (at least half of the budget)
+ */
+function getFetchDeadline(runStartedAt: number, budgetMs: number): number {
+    return (
+        runStartedAt +
+        Math.max(budgetMs - POST_FETCH_RESERVE_MS, Math.round(budgetMs / 2))
+    );
+}
+
 /**
  * Fetch news from all active tools and insert into database
- * Uses URL-based detection to find new content (compares with last_parsed_url)
+ * Detects new content by set difference against the tool's seen items.
+ * Tools are fetched PIPELINE_CONCURRENCY at a time; tools not started by the
+ * deadline are deferred and go first on the next run.
+ * Bursts of "new" items that look like a site redesign are quarantined
+ * instead of inserted (floodGuard.ts). Items backfilled on a tool's first
+ * run are inserted as already digested.
+ * Items are inserted per tool. A tool's markers (seen items,
+ * last_parsed_url, page validators) advance only after its new items are
+ * stored, so a failed insert or a run killed in between fetches the same
+ * items again next time; other tools are not affected.
+ * Every tool's result is recorded in source_fetch_runs for health reports,
+ * broken sources are then reported to the admin chat
  */
 async function fetchAndInsertNews(
     _targetDateStr: string,
-    useUrlBasedDetection: boolean = true
+    useUrlBasedDetection: boolean = true,
+    deadline: number = Infinity,
+    backfill?: BackfillPolicy
 ): Promise<FetchNewsResult> {
     const errors: string[] = [];
     let totalNewsCount = 0;
@@ -74,7 +130,12 @@ async function fetchAndInsertNews(
 
     if (tools.length === 0) {
         console.log("[pipeline] No active tools found.");
-        return { totalNews: 0, toolsProcessed: 0, errors: [] };
+        return {
+            totalNews: 0,
+            toolsProcessed: 0,
+            toolsDeferred: [],
+            errors: [],
+        };
     }
 
     console.log(`[pipeline] Found ${tools.length} active tools to process`);
@@ -83,58 +144,292 @@ async function fetchAndInsertNews(
     );
 
     const allNewsItems: NewsItemInput[] = [];
+    const backfillNews: NewsItemInput[] = [];
+    const runId = randomUUID();
+    const fetchRuns: SourceFetchRunInput[] = [];
+    const deferredTools: Tool[] = [];
+    const stagedChecks: { tool: Tool; check: NewContentCheckResult }[] = [];
+
+    await mapWithConcurrency(
+        tools,
+        config.pipelineConcurrency,
+        async (tool) => {
+            if (Date.now() >= deadline) {
+                deferredTools.push(tool);
+                return;
+            }
 
-    for (const tool of tools) {
-        try {
-            console.log(`\n[pipeline] Processing: ${tool.name} (${tool.id})`);
+            const startedAt = new Date();
+            try {
+                console.log(
+                    `\n[pipeline] Processing: ${tool.name} (${tool.id})`
+                );
 
-            let parsedNews: ParsedNewsItem[];
+                let outcome: ParseOutcome;
+                let check: NewContentCheckResult | null = null;
+
+                if (useUrlBasedDetection) {
+                    // Seen-set detection: only items not listed on an earlier
+                    // run; committed after the insert below
+                    check = await checkForNewContent(tool, { backfill });
+                    outcome = {
+                        items: check.newItems,
+                        diagnostics: check.diagnostics,
+                    };
+                } else {
+                    // Legacy date-based filtering
+                    const sinceDate = getDaysAgo(7);
+                    outcome = await fetchToolNews(tool, sinceDate);
+                }
 
-            if (useUrlBasedDetection) {
-                // New URL-based detection: only fetch items newer than last_parsed_url
-                parsedNews = await fetchNewToolNews(tool, true);
-            } else {
-                // Legacy date-based filtering
-                const sinceDate = getDaysAgo(7);
-                parsedNews = await fetchToolNews(tool, sinceDate);
-            }
+                // Tools without a news URL are not sources - nothing to record
+                const { diagnostics } = outcome;
+                if (resolveNewsUrl(tool)) {
+                    fetchRuns.push({
+                        run_id: runId,
+                        tool_id: tool.id,
+                        parser: diagnostics.parser ?? null,
+                        status: diagnostics.status,
+                        http_status: diagnostics.httpStatus,
+                        duration_ms: Date.now() - startedAt.getTime(),
+                        item_count:
+                            diagnostics.itemsFound ?? outcome.items.length,
+                        new_item_count: 0,
+                        unchanged: diagnostics.unchanged ?? false,
+                        proxy: diagnostics.proxy ?? null,
+                        error:
+                            diagnostics.status === "ok"
+                                ? null
+                                : (diagnostics.message ?? null),
+                        started_at: startedAt.toISOString(),
+                    });
+                }
+
+                // Blocked, missing or unparseable sources are reported per tool
+                if (outcome.diagnostics.status !== "ok") {
+                    const errorMsg = `${tool.name}: ${describeDiagnostics(outcome.diagnostics)}`;
+                    console.error(`[pipeline] ${errorMsg}`);
+                    errors.push(errorMsg);
+                }
+
+                const parsedNews = outcome.items;
+                if (parsedNews.length === 0) {
+                    console.log(`[pipeline] No new content for ${tool.name}`);
+                } else {
+                    // Transform parsed news to database format
+                    const newsItems = transformNewsItems(parsedNews, tool);
+                    allNewsItems.push(...newsItems);
 
-            if (parsedNews.length === 0) {
-                console.log(`[pipeline] No new content for ${tool.name}`);
-                continue;
+                    totalNewsCount += newsItems.length;
+                    toolsProcessed++;
+
+                    console.log(
+                        `[pipeline] Found ${newsItems.length} NEW items for ${tool.name}`
+                    );
+                }
+
+                // First-run history goes to the archive, not the next digest
+                if (check?.backfillItems?.length) {
+                    backfillNews.push(
+                        ...transformNewsItems(check.backfillItems, tool).map(
+                            (item) => ({
+                                ...item,
+                                digest_date: BACKFILL_DIGEST_DATE,
+                            })
+                        )
+                    );
+                    console.log(
+                        `[pipeline] Backfilling ${check.backfillItems.length} older items for ${tool.name}`
+                    );
+                }
+
+                if (check) {
+                    stagedChecks.push({ tool, check });
+                }
+            } catch (error) {
+                const message =
+                    error instanceof Error ? error.message : String(error);
+                const errorMsg = `Error processing ${tool.name}: ${message}`;
+                console.error(`[pipeline] ${errorMsg}`);
+                errors.push(errorMsg);
+                fetchRuns.push({
+                    run_id: runId,
+                    tool_id: tool.id,
+                    parser: null,
+                    status: "error",
+                    http_status: null,
+                    duration_ms: Date.now() - startedAt.getTime(),
+                    item_count: 0,
+                    new_item_count: 0,
+                    unchanged: false,
+                    proxy: null,
+                    error: message,
+                    started_at: startedAt.toISOString(),
+                });
+                // Continue processing other tools
             }
+        }
+    );
 
-            // Transform parsed news to database format
-            const newsItems = transformNewsItems(parsedNews, tool);
-            allNewsItems.push(...newsItems);
+    if (deferredTools.length > 0) {
+        console.warn(
+            `[pipeline] Run deadline reached, deferred ${deferredTools.length} tools to the next run: ${deferredTools.map((tool) => tool.name).join(", ")}`
+        );
+    }
 
-            totalNewsCount += newsItems.length;
-            toolsProcessed++;
+    // Hold back bursts that look like a redesign; the flagged tools'
+    // markers still advance below, so the items are not reported again.
+    // If the guard itself fails, the run goes on with the items unchecked
+    let guard: FloodGuardResult = { accepted: allNewsItems, flagged: [] };
+    try {
+        guard = await guardAgainstFloods(allNewsItems, tools, runId);
+    } catch (error) {
+        const errorMsg = `Flood guard error, items accepted unchecked: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[pipeline] ${errorMsg}`);
+        errors.push(errorMsg);
+    }
+    const { accepted: newsToInsert, flagged } = guard;
+    for (const { tool, count, reason } of flagged) {
+        const errorMsg = `${tool.name}: ${count} items quarantined for review (${reason})`;
+        console.error(`[pipeline] ${errorMsg}`);
+        errors.push(errorMsg);
+        totalNewsCount -= count;
+        toolsProcessed--;
+    }
 
-            console.log(
-                `[pipeline] Found ${newsItems.length} NEW items for ${tool.name}`
-            );
+    // Fill in article text for items that came from listing pages
+    if (config.enrichEnabled && Date.now() >= deadline) {
+        console.log("\n[pipeline] Run deadline reached, skipping enrichment");
+    } else if (
+        config.enrichEnabled &&
+        newsToInsert.length + backfillNews.length > 0
+    ) {
+        console.log("\n[pipeline] Enriching items without content...");
+        try {
+            // New items first - backfill only gets what the limit leaves
+            await enrichNewsItems([...newsToInsert, ...backfillNews], {
+                tools,
+                deadline,
+            });
+            // Article pages may declare a different canonical URL
+            for (const item of [...newsToInsert, ...backfillNews]) {
+                item.hash = newsItemHash(item);
+            }
         } catch (error) {
-            const errorMsg = `Error processing ${tool.name}: ${error instanceof Error ? error.message : String(error)}`;
+            const errorMsg = `Enrichment error: ${error instanceof Error ? error.message : String(error)}`;
             console.error(`[pipeline] ${errorMsg}`);
             errors.push(errorMsg);
-            // Continue processing other tools
         }
     }
 
-    // Insert all news items into the database
+    // Insert per tool: a failed insert holds back only that tool's markers
     console.log(
-        `\n[pipeline] Inserting ${allNewsItems.length} news items into database...`
+        `\n[pipeline] Inserting ${newsToInsert.length} news items into database...`
     );
+    const insertFailed = new Set<string>();
+    const toolsById = new Map(tools.map((tool) => [tool.id, tool]));
+    const insertToolIds = [
+        ...new Set(
+            [...newsToInsert, ...backfillNews].map((item) => item.tool_id)
+        ),
+    ];
+    await mapWithConcurrency(
+        insertToolIds,
+        config.pipelineConcurrency,
+        async (toolId) => {
+            const toolNews = newsToInsert.filter(
+                (item) => item.tool_id === toolId
+            );
+            const toolBackfill = backfillNews.filter(
+                (item) => item.tool_id === toolId
+            );
+            let newsInserted = false;
+            try {
+                if (toolNews.length > 0) {
+                    const inserted = await insertNewsItems(toolNews);
+                    newsInserted = true;
+                    const fetchRun = fetchRuns.find(
+                        (run) => run.tool_id === toolId
+                    );
+                    if (fetchRun) fetchRun.new_item_count = inserted.length;
+                }
 
-    if (allNewsItems.length > 0) {
-        await insertNewsItems(allNewsItems);
-        console.log("[pipeline] News items inserted successfully");
+                // Not counted as new items: they would inflate the flood guard history
+                if (toolBackfill.length > 0) {
+                    console.log(
+                        `[pipeline] Inserting ${toolBackfill.length} backfilled items as already digested...`
+                    );
+                    await insertNewsItems(toolBackfill);
+                }
+            } catch (error) {
+                insertFailed.add(toolId);
+                const errorMsg = `Insert error for ${toolsById.get(toolId)?.name ?? toolId}: ${error instanceof Error ? error.message : String(error)}`;
+                console.error(`[pipeline] ${errorMsg}`);
+                errors.push(errorMsg);
+                if (toolNews.length > 0 && !newsInserted) {
+                    totalNewsCount -= toolNews.length;
+                    toolsProcessed--;
+                }
+            }
+        }
+    );
+
+    // Move the markers of tools whose items are stored or quarantined;
+    // tools with a failed insert fetch the same items again next run
+    await mapWithConcurrency(
+        stagedChecks.filter(({ tool }) => !insertFailed.has(tool.id)),
+        config.pipelineConcurrency,
+        async ({ tool, check }) => {
+            try {
+                await commitNewContent(tool, check);
+            } catch (error) {
+                const errorMsg = `Marker update error for ${tool.name}: ${error instanceof Error ? error.message : String(error)}`;
+                console.error(`[pipeline] ${errorMsg}`);
+                errors.push(errorMsg);
+            }
+        }
+    );
+
+    // Fetch history is for reports - a failed write must not fail the run
+    try {
+        await insertSourceFetchRuns(fetchRuns);
+    } catch (error) {
+        const errorMsg = `Fetch history error: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[pipeline] ${errorMsg}`);
+        errors.push(errorMsg);
+    }
+
+    // Deferred tools go first next run; processed ones lose their mark
+    const deferredIds = new Set(deferredTools.map((tool) => tool.id));
+    try {
+        await updateToolsDeferred([...deferredIds], true);
+        await updateToolsDeferred(
+            tools
+                .filter((tool) => tool.deferred_at && !deferredIds.has(tool.id))
+                .map((tool) => tool.id),
+            false
+        );
+    } catch (error) {
+        const errorMsg = `Deferred tools error: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[pipeline] ${errorMsg}`);
+        errors.push(errorMsg);
+    }
+
+    // Report sources that broke or recovered to the admin chat
+    if (config.telegramAdminChatId) {
+        try {
+            await processSourceAlerts(tools);
+        } catch (error) {
+            const errorMsg = `Source alerts error: ${error instanceof Error ? error.message : String(error)}`;
+            console.error(`[pipeline] ${errorMsg}`);
+            errors.push(errorMsg);
+        }
     }
 
     return {
         totalNews: totalNewsCount,
         toolsProcessed,
+        toolsDeferred: [...deferredIds],
         errors,
     };
 }
@@ -147,8 +442,9 @@ async function fetchAndInsertNews(
  * 2. Fetches all active AI tools from the database
  * 3. For each tool, fetches recent news from their news sources
  * 4. Transforms and deduplicates news items
- * 5. Inserts new items into the database
- * 6. Generates digest via LLM (only if not exists or forced)
+ * 5. Enriches items without content from their article pages
+ * 6. Inserts new items into the database
+ * 7. Generates digest via LLM (only if not exists or forced)
  *
  * Default behavior: processes news for YESTERDAY (run in the morning)
  *
@@ -164,8 +460,11 @@ export async function runDailyDigestPipeline(
         skipNewsFetch = false,
         publishToTelegram: shouldPublish = false,
         useUrlBasedDetection = true, // Default to new URL-based detection
+        budgetMs = config.pipelineBudgetMs,
+        backfill,
     } = options;
 
+    const deadline = getFetchDeadline(Date.now(), budgetMs);
     const dateStr = formatDateISO(targetDate);
     console.log(`\n========================================`);
     console.log(`[pipeline] Starting daily digest pipeline`);
@@ -179,6 +478,7 @@ export async function runDailyDigestPipeline(
     const errors: string[] = [];
     let totalNewsCount = 0;
     let toolsProcessed = 0;
+    let toolsDeferred: string[] = [];
     let digestGenerated = false;
     let digestFromCache = false;
     let telegramPublished = false;
@@ -201,10 +501,13 @@ export async function runDailyDigestPipeline(
                 );
                 const result = await fetchAndInsertNews(
                     dateStr,
-                    useUrlBasedDetection
+                    useUrlBasedDetection,
+                    deadline,
+                    backfill
                 );
                 totalNewsCount = result.totalNews;
                 toolsProcessed = result.toolsProcessed;
+                toolsDeferred = result.toolsDeferred;
                 errors.push(...result.errors);
             }
 
@@ -246,6 +549,7 @@ export async function runDailyDigestPipeline(
                 digestGenerated: false,
                 digestFromCache: true,
                 telegramPublished,
+                toolsDeferred,
                 errors,
             };
         }
@@ -263,10 +567,13 @@ export async function runDailyDigestPipeline(
             console.log("\n[pipeline] Step 2: Fetching and inserting news...");
             const result = await fetchAndInsertNews(
                 dateStr,
-                useUrlBasedDetection
+                useUrlBasedDetection,
+                deadline,
+                backfill
             );
             totalNewsCount = result.totalNews;
             toolsProcessed = result.toolsProcessed;
+            toolsDeferred = result.toolsDeferred;
             errors.push(...result.errors);
         } else {
             console.log(
@@ -329,6 +636,7 @@ export async function runDailyDigestPipeline(
         console.log(`[pipeline] Pipeline completed successfully`);
         console.log(`[pipeline] Target date: ${dateStr}`);
         console.log(`[pipeline] Total news items: ${totalNewsCount}`);
+        console.log(`[pipeline] Tools deferred: ${toolsDeferred.length}`);
         console.log(`[pipeline] Digest generated: ${digestGenerated}`);
         console.log(`[pipeline] Telegram published: ${telegramPublished}`);
         console.log(`[pipeline] Errors: ${errors.length}`);
@@ -341,6 +649,7 @@ export async function runDailyDigestPipeline(
             digestGenerated,
             digestFromCache,
             telegramPublished,
+            toolsDeferred,
             errors,
         };
     } catch (error) {
@@ -358,6 +667,7 @@ export async function runDailyDigestPipeline(
             digestGenerated,
             digestFromCache,
             telegramPublished,
+            toolsDeferred,
             errors: [...errors, errorMsg],
         };
     }
@@ -373,6 +683,8 @@ export interface RollingDigestResult {
     digestGenerated: boolean;
     telegramPublished: boolean;
     newsMarkedAsDigested: number;
+    /** Tools skipped because the run deadline passed (fetched first next run) */
+    toolsDeferred: string[];
     errors: string[];
 }
 
@@ -406,6 +718,10 @@ export async function runRollingDigestPipeline(
         dryRun?: boolean;
         /** Use URL-based new content detection (default: true) */
         useUrlBasedDetection?: boolean;
+        /** Time budget of the run in ms (default: config.pipelineBudgetMs) */
+        budgetMs?: number;
+        /** History stored for tools on their first run (default: per tool) */
+        backfill?: BackfillPolicy;
     } = {}
 ): Promise<RollingDigestResult> {
     const {
@@ -415,12 +731,16 @@ export async function runRollingDigestPipeline(
         publishToTelegram: shouldPublish = false,
         dryRun = false,
         useUrlBasedDetection = true,
+        budgetMs = config.pipelineBudgetMs,
+        backfill,
     } = options;
 
+    const deadline = getFetchDeadline(Date.now(), budgetMs);
     const errors: string[] = [];
     const today = formatDateISO(new Date());
     let telegramPublished = false;
     let newsMarkedAsDigested = 0;
+    let toolsDeferred: string[] = [];
 
     console.log(`\n========================================`);
     console.log(`[pipeline] Starting ROLLING WINDOW digest pipeline`);
@@ -437,11 +757,14 @@ export async function runRollingDigestPipeline(
             console.log("[pipeline] Step 1: Fetching fresh news...");
             const fetchResult = await fetchAndInsertNews(
                 today,
-                useUrlBasedDetection
+                useUrlBasedDetection,
+                deadline,
+                backfill
             );
             console.log(
                 `[pipeline] Fetched ${fetchResult.totalNews} news items`
             );
+            toolsDeferred = fetchResult.toolsDeferred;
             errors.push(...fetchResult.errors);
         } else {
             console.log("[pipeline] Step 1: Skipping news fetch");
@@ -469,6 +792,7 @@ export async function runRollingDigestPipeline(
                 digestGenerated: false,
                 telegramPublished: false,
                 newsMarkedAsDigested: 0,
+                toolsDeferred,
                 errors,
             };
         }
@@ -535,6 +859,7 @@ export async function runRollingDigestPipeline(
             digestGenerated: true,
             telegramPublished,
             newsMarkedAsDigested,
+            toolsDeferred,
             errors,
         };
     } catch (error) {
@@ -549,6 +874,7 @@ export async function runRollingDigestPipeline(
             digestGenerated: false,
             telegramPublished: false,
             newsMarkedAsDigested: 0,
+            toolsDeferred,
             errors,
         };
     }
@@ -557,30 +883,48 @@ export async function runRollingDigestPipeline(
 /**
  * Transform parsed news items to database format
  * Adds tool_id, lang, hash and other required fields
+ * Undated items get a low-confidence date from their URL path (/2025/01/15/)
  */
 function transformNewsItems(
     parsedNews: ParsedNewsItem[],
     tool: Tool
 ): NewsItemInput[] {
-    return parsedNews.map((item) => {
-        // Generate a unique hash based on URL and title for deduplication
-        const hash = generateHash(`${item.url}|${item.title}`);
-
-        return {
+    return applyUrlDates(parsedNews).map((item) => {
+        const news = {
             tool_id: tool.id,
             title: item.title,
             url: item.url,
             published_at: item.publishedAt?.toISOString() ?? null,
+            published_at_confidence: item.publishedAt
+                ? (item.dateConfidence ?? 1)
+                : null,
             raw_content: item.rawContent,
             snippet: item.snippet ?? item.rawContent.substring(0, 200),
             importance: null, // Will be set by LLM classifier later
-            tags: [],
+            tags: item.tags ?? [],
+            external_id: item.externalId ?? null,
+            author: item.author ?? null,
+            image_url: item.imageUrl ?? null,
             lang: tool.lang,
-            hash,
         };
+        return { ...news, hash: newsItemHash(news) };
     });
 }
 
+/**
+ * Unique hash for deduplication: the feed guid when there is one
+ * (survives URL changes), otherwise canonical URL and title
+ */
+function newsItemHash(
+    item: Pick<NewsItemInput, "tool_id" | "external_id" | "url" | "title">
+): string {
+    return generateHash(
+        item.external_id
+            ? `${item.tool_id}|${item.external_id}`
+            : `${canonicalizeUrl(item.url, undefined, { keepFragment: true })}|${item.title}`
+    );
+}
+
 /**
  * Generate a SHA-256 hash for deduplication
  */
@@ -0,0 +1,108 @@
+import type * as cheerio from "cheerio";
+import { config } from "../../config/env.js";
+
+/**
+ * File names that serve the directory they are in
+ */
+const INDEX_FILES = /\/(index|default)\.(html?|php|aspx?|shtml)$/i;
+
+/**
+ * Canonicalization options
+ */
+export interface CanonicalizeOptions {
+    /** Keep the #fragment - for items that are anchors on one page */
+    keepFragment?: boolean;
+}
+
+/**
+ * Whether a query parameter is in the tracking denylist
+ * (URL_TRACKING_PARAMS; entries ending in "*" match by prefix)
+ */
+export function isTrackingParam(name: string): boolean {
+    const param = name.toLowerCase();
+    return config.urlTrackingParams.some((entry) =>
+        entry.endsWith("*")
+            ? param.startsWith(entry.slice(0, -1))
+            : param === entry
+    );
+}
+
+/**
+ * Remove denylisted tracking parameters from a URL in place
+ */
+export function stripTrackingParams(url: URL): void {
+    for (const name of [...url.searchParams.keys()]) {
+        if (isTrackingParam(name)) url.searchParams.delete(name);
+    }
+}
+
+/**
+ * Canonical form of an item URL - a comparison key, so one article always
+ * gets one key. Not a link to show or fetch: sites that only serve "www."
+ * or plain http would break. Normalization:
+ * - http becomes https (unless a port is given), host is lowercased and
+ *   loses "www." and its default port
+ * - index.html / index.php / default.aspx and trailing slashes are dropped
+ * - the fragment is dropped (unless keepFragment)
+ * - tracking parameters are removed, the rest sorted by name
+ *
+ * Relative URLs are resolved against baseUrl; unparseable URLs are
+ * returned unchanged
+ */
+export function canonicalizeUrl(
+    url: string,
+    baseUrl?: string,
+    options: CanonicalizeOptions = {}
+): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim(), baseUrl);
+    } catch {
+        return url;
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        return parsed.toString();
+    }
+
+    if (parsed.protocol === "http:" && !parsed.port) {
+        parsed.protocol = "https:";
+    }
+    parsed.hostname = parsed.hostname.replace(/^www\./, "");
+
+    parsed.pathname = parsed.pathname.replace(INDEX_FILES, "/");
+    if (parsed.pathname.length > 1) {
+        parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+
+    if (!options.keepFragment) parsed.hash = "";
+
+    stripTrackingParams(parsed);
+    parsed.searchParams.sort();
+
+    return parsed.toString();
+}
+
+/**
+ * Canonical URL a page declares with <link rel="canonical">
+ * Only URLs on the page's own site are trusted - a canonical pointing
+ * elsewhere is syndication, not the same article
+ *
+ * @returns Absolute URL as declared, or null when the page declares none
+ */
+export function findCanonicalUrl(
+    $: cheerio.CheerioAPI,
+    pageUrl: string
+): string | null {
+    const href = $("link[rel~='canonical'][href]").first().attr("href");
+    if (!href) return null;
+
+    try {
+        const declared = new URL(href.trim(), pageUrl).toString();
+        const sameSite =
+            new URL(canonicalizeUrl(declared)).hostname ===
+            new URL(canonicalizeUrl(pageUrl)).hostname;
+        return sameSite ? declared : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,359 @@
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import type { NewsParser, ParseOutcome } from "./types.js";
+import { DATE_PATTERNS } from "./types.js";
+import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import { getFetcher } from "./fetchers.js";
+import {
+    countSkip,
+    createDiagnostics,
+    fetchFailure,
+    parseFailure,
+    recordFetch,
+} from "./diagnostics.js";
+import { cleanText, createSnippet, isAfterDate } from "./utils.js";
+import { extractDate } from "./dateParser.js";
+import type { DateParseOptions, ExtractedDate } from "./dateParser.js";
+
+/**
+ * Version numbers in headings: v0.42, 1.2.3, 2.0.0-beta.1
+ */
+const VERSION_PATTERN = /\bv?(\d+\.\d+(?:\.\d+)?(?:-[\w.]+)?)\b/i;
+
+/**
+ * Upper bound for the text kept per entry
+ */
+const MAX_ENTRY_LENGTH = 5000;
+
+/**
+ * Elements that never belong to changelog entries
+ * (<header> stays - entries often wrap their heading in one)
+ */
+const NOISE_SELECTOR =
+    "script, style, noscript, template, svg, nav, footer, aside, form";
+
+const HEADING_TAGS = ["h1", "h2", "h3", "h4"];
+
+/**
+ * Changelog / release notes parser
+ * Splits one long document into entries by heading hierarchy: the highest
+ * heading level whose headings carry versions or dates starts a new entry.
+ * Each entry gets a stable anchor URL (page#v0-42) so URL-based
+ * new-content detection can tell entries apart
+ */
+export class ChangelogParser implements NewsParser {
+    name = "Changelog Parser";
+
+    canParse(url: string): boolean {
+        return /\/(changelog|release-?notes|whats-new)(\/|$|\?|#)/i.test(url);
+    }
+
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        console.log(`[ChangelogParser] Fetching: ${url}`);
+
+        const result = await getFetcher(tool).fetch(url);
+        if (!result.ok) {
+            console.error(`[ChangelogParser] Failed to fetch: ${result.error}`);
+            const { items, diagnostics } = fetchFailure(result);
+            return { items, diagnostics };
+        }
+
+        try {
+            const outcome = this.parseChangelog(
+                result.text,
+                url,
+                tool,
+                since,
+                result.fetchedAt
+            );
+            recordFetch(outcome.diagnostics, result);
+            console.log(
+                `[ChangelogParser] Parsed ${outcome.items.length} entries`
+            );
+            return outcome;
+        } catch (error) {
+            console.error(`[ChangelogParser] Parse error:`, error);
+            const { items, diagnostics } = parseFailure(error, result);
+            return { items, diagnostics };
+        }
+    }
+
+    /**
+     * Split an already fetched changelog page into entries
+     * fetchedAt anchors relative dates ("2 days ago") to the fetch time
+     */
+    parseChangelog(
+        html: string,
+        pageUrl: string,
+        tool: Tool,
+        since: Date,
+        fetchedAt?: Date
+    ): ParseOutcome {
+        const options = tool.parser_config?.changelog ?? {};
+        const dateOptions: DateParseOptions = {
+            lang: tool.lang,
+            now: fetchedAt,
+        };
+        const $ = cheerio.load(html);
+        $(NOISE_SELECTOR).remove();
+
+        let $root = $(options.root ?? "main, [role='main']").first();
+        if ($root.length === 0) $root = $("body");
+
+        const headingSelector =
+            options.headingSelector ?? detectEntryHeading($, $root);
+        const diagnostics = createDiagnostics(null, headingSelector);
+        if (!headingSelector) {
+            console.log("[ChangelogParser] No version or date headings found");
+            diagnostics.status = "empty_selectors";
+            diagnostics.message = "No version or date headings found";
+            return { items: [], diagnostics };
+        }
+
+        const headings = $root.find(headingSelector).toArray();
+        const baseUrl = pageUrl.replace(/#.*$/, "");
+        const usedAnchors = new Set<string>();
+        const news: ParsedNewsItem[] = [];
+
+        for (const heading of headings) {
+            const $heading = $(heading);
+            const headingText = cleanText($heading.text());
+            if (!headingText) continue;
+
+            const markerText = `${headingText} ${precedingLabels($, $heading)}`;
+            const version = VERSION_PATTERN.exec(markerText)?.[1] ?? null;
+            const extracted = findDate($, $heading, markerText, dateOptions);
+            const publishedAt = extracted?.date ?? null;
+
+            const content = entryContent($, $heading, headingSelector);
+            const title = entryTitle(headingText, content.subheading, tool);
+            const anchor = uniqueAnchor(
+                existingAnchor($heading, headingSelector) ??
+                    fallbackAnchor(
+                        version,
+                        // Relative dates shift between runs - not anchor material
+                        extracted?.source === "absolute" ? publishedAt : null,
+                        headingText
+                    ),
+                usedAnchors
+            );
+
+            if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
+                continue;
+            }
+
+            const rawContent = content.text.substring(0, MAX_ENTRY_LENGTH);
+            news.push({
+                title,
+                url: `${baseUrl}#${anchor}`,
+                publishedAt,
+                dateConfidence: extracted?.confidence,
+                rawContent,
+                snippet: createSnippet(rawContent),
+                tags: ["changelog"],
+            });
+        }
+
+        return { items: news.slice(0, options.limit ?? 20), diagnostics };
+    }
+}
+
+/**
+ * Pick the heading level that starts entries
+ * The highest level with at least two version/date headings wins,
+ * e.g. h2 "v0.42 - March 3, 2025" over h3 "Bug fixes"
+ */
+function detectEntryHeading(
+    $: cheerio.CheerioAPI,
+    $root: cheerio.Cheerio<AnyNode>
+): string | null {
+    for (const tag of HEADING_TAGS) {
+        const marked = $root
+            .find(tag)
+            .toArray()
+            .filter((el) => {
+                const text = `${cleanText($(el).text())} ${precedingLabels($, $(el))}`;
+                return VERSION_PATTERN.test(text) || hasDate(text);
+            });
+        if (marked.length >= 2) return tag;
+    }
+    return null;
+}
+
+/**
+ * Short labels right before a heading ("v0.42" badges, dates)
+ * Many changelogs render the version or date next to the title, not in it.
+ * Stops at the previous heading or block of text - those belong to another entry
+ */
+function precedingLabels(
+    $: cheerio.CheerioAPI,
+    $heading: cheerio.Cheerio<Element>
+): string {
+    const labels: string[] = [];
+
+    for (const el of $heading.prevAll().slice(0, 2).toArray()) {
+        const $el = $(el);
+        const text = cleanText($el.text());
+        if ($el.is(HEADING_TAGS.join(", ")) || text.length > 60) break;
+        if (text) labels.unshift(text);
+    }
+
+    return labels.join(" ");
+}
+
+function hasDate(text: string): boolean {
+    return Object.values(DATE_PATTERNS).some((pattern) => pattern.test(text));
+}
+
+/**
+ * Entry date: a <time> element in or right next to the heading,
+ * then a date in the heading text and its labels
+ */
+function findDate(
+    $: cheerio.CheerioAPI,
+    $heading: cheerio.Cheerio<Element>,
+    markerText: string,
+    dateOptions: DateParseOptions
+): ExtractedDate | null {
+    const neighbours = [$heading, $heading.prev(), $heading.next()];
+
+    for (const $el of neighbours) {
+        const $time = $el.is("time") ? $el : $el.find("time").first();
+        const datetime = $time.attr("datetime") || cleanText($time.text());
+        const date = datetime ? extractDate(datetime, dateOptions) : null;
+        if (date) return date;
+    }
+
+    for (const pattern of Object.values(DATE_PATTERNS)) {
+        const match = pattern.exec(markerText);
+        if (match) {
+            const date = extractDate(match[0], dateOptions);
+            if (date) return date;
+        }
+    }
+    return null;
+}
+
+/**
+ * Text of an entry: everything after the heading up to the next entry heading
+ * Entries wrapped in their own container (<article><header><h2/></header>
+ * <div>...</div></article>) are read from the container instead
+ */
+function entryContent(
+    $: cheerio.CheerioAPI,
+    $heading: cheerio.Cheerio<Element>,
+    headingSelector: string
+): { text: string; subheading: string } {
+    let $content = $heading.nextUntil(headingSelector);
+
+    if (cleanText($content.text()).length < 40) {
+        let $container = $heading.parent();
+        while (
+            $container.parent().length > 0 &&
+            !$container.is("body, main") &&
+            $container.parent().find(headingSelector).length === 1
+        ) {
+            $container = $container.parent();
+        }
+        if ($container.find(headingSelector).length === 1) {
+            // Skip the heading and its wrapper (<header> with version/date labels)
+            $content = $container
+                .children()
+                .filter(
+                    (_, el) =>
+                        !$(el).is($heading) && $(el).find($heading).length === 0
+                );
+        }
+    }
+
+    const blocks: string[] = [];
+    $content.each((_, el) => {
+        const text = cleanText($(el).text());
+        if (text) blocks.push(text);
+    });
+
+    return {
+        text: blocks.join("\n\n"),
+        subheading: cleanText(
+            $content
+                .filter("h2, h3, h4, h5")
+                .add($content.find("h2, h3, h4, h5"))
+                .first()
+                .text()
+        ),
+    };
+}
+
+/**
+ * Headings that are only a version or a date get a more telling title
+ */
+function entryTitle(
+    headingText: string,
+    subheading: string,
+    tool: Tool
+): string {
+    const remainder = headingText
+        .replace(VERSION_PATTERN, "")
+        .replace(/[-–—|:·,\s]+/g, " ");
+    const stripped = Object.values(DATE_PATTERNS)
+        .reduce((text, pattern) => text.replace(pattern, ""), remainder)
+        .trim();
+
+    if (/[a-z]{3,}/i.test(stripped)) return headingText;
+    if (subheading) return `${headingText}: ${subheading}`;
+    return `${tool.name} ${headingText}`;
+}
+
+/**
+ * Anchor already present on the page: heading id, an id/name/#href inside it,
+ * or the id of a wrapper that holds only this entry
+ */
+function existingAnchor(
+    $heading: cheerio.Cheerio<Element>,
+    headingSelector: string
+): string | null {
+    const $parent = $heading.parent();
+    const wrapperId =
+        $parent.find(headingSelector).length === 1
+            ? $parent.attr("id")
+            : undefined;
+
+    const id =
+        $heading.attr("id") ||
+        $heading.find("[id]").first().attr("id") ||
+        $heading.find("a[name]").first().attr("name") ||
+        $heading.find("a[href^='#']").first().attr("href")?.slice(1) ||
+        wrapperId;
+    return id ? id : null;
+}
+
+/**
+ * Anchor derived from the entry: v0-42, 2025-03-03 or a title slug
+ */
+function fallbackAnchor(
+    version: string | null,
+    publishedAt: Date | null,
+    headingText: string
+): string {
+    if (version) return slugify(`v${version}`);
+    if (publishedAt) return publishedAt.toISOString().substring(0, 10);
+    return slugify(headingText);
+}
+
+function uniqueAnchor(anchor: string, used: Set<string>): string {
+    let candidate = anchor || "entry";
+    for (let i = 2; used.has(candidate); i++) {
+        candidate = `${anchor}-${i}`;
+    }
+    used.add(candidate);
+    return candidate;
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, 80);
+}
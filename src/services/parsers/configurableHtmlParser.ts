@@ -0,0 +1,223 @@
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat.js";
+import type { NewsParser, ParseOutcome, ParsedPage } from "./types.js";
+import { findNextPageUrl } from "./htmlBlogParser.js";
+import type { ParsedNewsItem, SelectorConfig, Tool } from "../../db/types.js";
+import {
+    cleanText,
+    createSnippet,
+    normalizeUrl,
+    isAfterDate,
+} from "./utils.js";
+import { getFetcher } from "./fetchers.js";
+import {
+    countSkip,
+    createDiagnostics,
+    fetchFailure,
+    parseFailure,
+    recordFetch,
+} from "./diagnostics.js";
+import { extractDate, extractDateFromUrl } from "./dateParser.js";
+import type { DateParseOptions, ExtractedDate } from "./dateParser.js";
+
+dayjs.extend(customParseFormat);
+
+/**
+ * Options for a configurable parser instance
+ */
+export interface ConfigurableParserOptions {
+    /** Parser name for logging */
+    name?: string;
+    /** URL pattern this parser handles (default: none, parser is bound to a tool) */
+    urlPattern?: RegExp;
+}
+
+/**
+ * HTML parser driven by a declarative selector spec
+ * Used for built-in site configs and for tools with tools.parser_config
+ */
+export class ConfigurableHtmlParser implements NewsParser {
+    name: string;
+
+    private selectors: SelectorConfig;
+    private urlPattern?: RegExp;
+
+    constructor(
+        selectors: SelectorConfig,
+        options: ConfigurableParserOptions = {}
+    ) {
+        this.selectors = selectors;
+        this.name = options.name ?? "Configurable HTML Parser";
+        this.urlPattern = options.urlPattern;
+    }
+
+    canParse(url: string): boolean {
+        return this.urlPattern ? this.urlPattern.test(url) : false;
+    }
+
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        const { items, diagnostics } = await this.parsePage(url, tool, since);
+        return { items, diagnostics };
+    }
+
+    async parsePage(url: string, tool: Tool, since: Date): Promise<ParsedPage> {
+        console.log(`[${this.name}] Fetching: ${url}`);
+        const result = await getFetcher(tool).fetch(url);
+        if (!result.ok) {
+            console.error(`[${this.name}] Failed: ${result.error}`);
+            return fetchFailure(result);
+        }
+
+        try {
+            const page = this.parseHtml(result.text, url, since, {
+                lang: tool.lang,
+                now: result.fetchedAt,
+            });
+            recordFetch(page.diagnostics, result);
+            console.log(`[${this.name}] Found ${page.items.length} articles`);
+            return page;
+        } catch (error) {
+            console.error(`[${this.name}] Parse error:`, error);
+            return parseFailure(error, result, this.selectors.container);
+        }
+    }
+
+    /**
+     * Extract news items and the next page link from an already fetched HTML document
+     * dateOptions carry the page language and fetch time for human-written dates
+     */
+    parseHtml(
+        html: string,
+        baseUrl: string,
+        since: Date,
+        dateOptions: DateParseOptions = {}
+    ): ParsedPage {
+        const spec = this.selectors;
+        const $ = cheerio.load(html);
+        const news: ParsedNewsItem[] = [];
+        const seenUrls = new Set<string>();
+        const diagnostics = createDiagnostics(null, spec.container);
+
+        const linkInclude = spec.linkInclude
+            ? new RegExp(spec.linkInclude, "i")
+            : null;
+        const linkExclude = spec.linkExclude
+            ? new RegExp(spec.linkExclude, "i")
+            : null;
+        const minTitleLength = spec.minTitleLength ?? 10;
+        const maxTitleLength = spec.maxTitleLength ?? 200;
+
+        const $containers = $(spec.container);
+        $containers.each((_, el) => {
+            const $el = $(el as Element);
+
+            // Link: the container itself, explicit selector, or first anchor
+            const $link = $el.is("a")
+                ? $el
+                : $el.find(spec.link ?? "a").first();
+            const href = $link.attr("href");
+
+            if (!href || this.isSkipHref(href)) {
+                countSkip(diagnostics, "missing_link");
+                return;
+            }
+
+            const link = normalizeUrl(href, baseUrl);
+            if (
+                (linkInclude && !linkInclude.test(link)) ||
+                (linkExclude && linkExclude.test(link))
+            ) {
+                countSkip(diagnostics, "filtered_link");
+                return;
+            }
+            if (seenUrls.has(link)) {
+                countSkip(diagnostics, "duplicate");
+                return;
+            }
+
+            let title = cleanText($el.find(spec.title).first().text());
+            if (!title && spec.titleFromText) {
+                title = cleanText($el.text());
+            }
+            if (
+                !title ||
+                title.length < minTitleLength ||
+                title.length > maxTitleLength
+            ) {
+                countSkip(diagnostics, "missing_title");
+                return;
+            }
+
+            const extracted =
+                (spec.date
+                    ? this.readDate($el.find(spec.date).first(), dateOptions)
+                    : null) ?? extractDateFromUrl(link);
+            const publishedAt = extracted?.date ?? null;
+            if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
+                return;
+            }
+
+            const excerpt = spec.excerpt
+                ? cleanText($el.find(spec.excerpt).first().text())
+                : "";
+
+            seenUrls.add(link);
+            news.push({
+                title,
+                url: link,
+                publishedAt,
+                dateConfidence: extracted?.confidence,
+                rawContent: excerpt,
+                snippet: createSnippet(excerpt),
+            });
+        });
+
+        if ($containers.length === 0) {
+            diagnostics.status = "empty_selectors";
+            diagnostics.message = `No elements match "${spec.container}"`;
+        } else if (news.length === 0 && !diagnostics.skipped.older_than_since) {
+            diagnostics.status = "empty_selectors";
+        }
+
+        return {
+            items: news.slice(0, spec.limit ?? 20),
+            nextPageUrl: findNextPageUrl($, baseUrl, spec.nextPage),
+            diagnostics,
+        };
+    }
+
+    private readDate(
+        $date: cheerio.Cheerio<Element>,
+        dateOptions: DateParseOptions
+    ): ExtractedDate | null {
+        if (!$date.length) return null;
+
+        const datetime = $date.attr("datetime") || $date.attr("data-date");
+        if (datetime) return extractDate(datetime, dateOptions);
+
+        const text = cleanText($date.text());
+        if (this.selectors.dateFormat) {
+            const parsed = dayjs(text, this.selectors.dateFormat);
+            if (parsed.isValid()) {
+                return {
+                    date: parsed.toDate(),
+                    confidence: 1,
+                    source: "absolute",
+                };
+            }
+        }
+        return extractDate(text, dateOptions);
+    }
+
+    private isSkipHref(href: string): boolean {
+        return (
+            href === "#" ||
+            href.startsWith("mailto:") ||
+            href.startsWith("tel:") ||
+            href.startsWith("javascript:")
+        );
+    }
+}
@@ -0,0 +1,464 @@
+import dayjs from "dayjs";
+import type { ParsedNewsItem } from "../../db/types.js";
+
+/**
+ * A date found in text or a URL, with how much we trust it
+ * confidence: 1 = explicit machine-readable date, lower = inferred
+ * (missing year, relative "3 weeks ago", date taken from the URL path)
+ */
+export interface ExtractedDate {
+    date: Date;
+    confidence: number;
+    source: "absolute" | "relative" | "url";
+}
+
+/**
+ * Context for parsing human-written dates
+ */
+export interface DateParseOptions {
+    /** Language of the page (tools.lang) - tried first for month names and d/m order */
+    lang?: string | null;
+    /** Anchor for relative dates and year inference - the fetch time (default: now) */
+    now?: Date;
+}
+
+type Unit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Month names per language, January first, as regex alternatives
+ * Full names with their inflected forms (января, січня) and the usual
+ * abbreviations (Jan., janv.) - whole words only, so "Marketing" or
+ * "Decision" are not months
+ */
+const MONTH_NAMES: Record<string, string[]> = {
+    en: [
+        "jan(?:uary)?",
+        "feb(?:ruary)?",
+        "mar(?:ch)?",
+        "apr(?:il)?",
+        "may",
+        "june?",
+        "july?",
+        "aug(?:ust)?",
+        "sep(?:t(?:ember)?)?",
+        "oct(?:ober)?",
+        "nov(?:ember)?",
+        "dec(?:ember)?",
+    ],
+    ru: [
+        "янв(?:арь|аря|аре)?",
+        "фев(?:раль|раля|рале)?",
+        "мар(?:т|та|те)?",
+        "апр(?:ель|еля|еле)?",
+        "ма[йяе]",
+        "июн(?:ь|я|е)?",
+        "июл(?:ь|я|е)?",
+        "авг(?:уст|уста|усте)?",
+        "сен(?:т(?:ябрь|ября|ябре)?)?",
+        "окт(?:ябрь|ября|ябре)?",
+        "ноя(?:брь|бря|бре)?",
+        "дек(?:абрь|абря|абре)?",
+    ],
+    uk: [
+        "січ(?:ень|ня|ні)?",
+        "лют(?:ий|ого|ому)?",
+        "бер(?:ез(?:ень|ня|ні)?)?",
+        "квіт(?:ень|ня|ні)?",
+        "трав(?:ень|ня|ні)?",
+        "черв(?:ень|ня|ні)?",
+        "лип(?:ень|ня|ні)?",
+        "серп(?:ень|ня|ні)?",
+        "вер(?:ес(?:ень|ня|ні)?)?",
+        "жовт(?:ень|ня|ні)?",
+        "лист(?:опад(?:а|і)?)?",
+        "груд(?:ень|ня|ні)?",
+    ],
+    de: [
+        "jan(?:uar)?|jän(?:ner)?",
+        "feb(?:ruar)?",
+        "märz?|maerz|mrz",
+        "apr(?:il)?",
+        "mai",
+        "juni?",
+        "juli?",
+        "aug(?:ust)?",
+        "sep(?:t(?:ember)?)?",
+        "okt(?:ober)?",
+        "nov(?:ember)?",
+        "dez(?:ember)?",
+    ],
+    fr: [
+        "janv(?:ier)?",
+        "f[ée]vr?(?:ier)?",
+        "mars",
+        "avr(?:il)?",
+        "mai",
+        "juin",
+        "juil(?:let)?",
+        "ao[uû]t",
+        "sept(?:embre)?",
+        "oct(?:obre)?",
+        "nov(?:embre)?",
+        "d[ée]c(?:embre)?",
+    ],
+    es: [
+        "ene(?:ro)?",
+        "feb(?:rero)?",
+        "mar(?:zo)?",
+        "abr(?:il)?",
+        "may(?:o)?",
+        "jun(?:io)?",
+        "jul(?:io)?",
+        "ago(?:sto)?",
+        "sept?(?:iembre)?|set(?:iembre)?",
+        "oct(?:ubre)?",
+        "nov(?:iembre)?",
+        "dic(?:iembre)?",
+    ],
+    pt: [
+        "jan(?:eiro)?",
+        "fev(?:ereiro)?",
+        "mar(?:ço)?",
+        "abr(?:il)?",
+        "mai(?:o)?",
+        "jun(?:ho)?",
+        "jul(?:ho)?",
+        "ago(?:sto)?",
+        "set(?:embro)?",
+        "out(?:ubro)?",
+        "nov(?:embro)?",
+        "dez(?:embro)?",
+    ],
+    it: [
+        "gen(?:naio)?",
+        "feb(?:braio)?",
+        "mar(?:zo)?",
+        "apr(?:ile)?",
+        "mag(?:gio)?",
+        "giu(?:gno)?",
+        "lug(?:lio)?",
+        "ago(?:sto)?",
+        "set(?:tembre)?",
+        "ott(?:obre)?",
+        "nov(?:embre)?",
+        "dic(?:embre)?",
+    ],
+};
+
+/**
+ * Words for "today" / "yesterday" across supported languages
+ */
+const TODAY_PATTERN =
+    /(^|[^\p{L}])(today|just now|сегодня|сьогодні|только что|щойно|heute|gerade|aujourd'hui|hoy|hoje|oggi)([^\p{L}]|$)|今天|今日|刚刚|오늘/iu;
+const YESTERDAY_PATTERN =
+    /(^|[^\p{L}])(yesterday|вчера|вчора|gestern|hier|ayer|ontem|ieri)([^\p{L}]|$)|昨天|昨日|어제/iu;
+
+/**
+ * "ago" markers: 3 days ago, 3 дня назад, vor 3 Tagen, il y a 3 jours, hace 3 días, 3天前
+ */
+const AGO_PATTERN =
+    /(^|[^\p{L}])(ago|назад|тому|vor|il y a|hace|há|fa)([^\p{L}]|$)|前|전/iu;
+
+/**
+ * Amount + unit, e.g. "3 days", "an hour", "einem Tag", "3天", "5h"
+ */
+const AMOUNT_UNIT_PATTERN =
+    /(\d+|(?<!\p{L})(?:an?|one|un|une|um|uma|una|ein|eine|einem|einer|einen|один|одна|одну)(?!\p{L}))\s*([^\s\d.,]+)/iu;
+
+/**
+ * Unit words by prefix; order matters ("годин" = hours in Ukrainian,
+ * "год" = year in Russian; "mo"nth before "m"inute)
+ */
+const UNIT_PREFIXES: [RegExp, Unit][] = [
+    [/^(sec|s$|сек|секунд|sekunde|seconde|segundo|second|秒|초)/iu, "second"],
+    [
+        /^(годин|hour|hr|h$|час|stunde|std|heure|hora|ora|小时|時間|时|시간)/iu,
+        "hour",
+    ],
+    [
+        /^(mo|month|мес|міс|monat|mois|mes|mês|mese|个月|ヶ月|か月|月|개월|달)/iu,
+        "month",
+    ],
+    [/^(min|m$|мин|хв|minute|minuto|分|분)/iu, "minute"],
+    [/^(day|d$|дн|день|дня|tag|jour|día|dia|giorn|天|日|일)/iu, "day"],
+    [/^(week|w$|wk|нед|тиж|woche|semaine|semana|settiman|周|週|주)/iu, "week"],
+    [
+        /^(year|yr|y$|год|лет|рік|рок|років|jahr|an|año|ano|anno|年|년)/iu,
+        "year",
+    ],
+];
+
+/**
+ * How much a relative date of each unit can be trusted
+ */
+const RELATIVE_CONFIDENCE: Record<Unit, number> = {
+    second: 0.9,
+    minute: 0.9,
+    hour: 0.9,
+    day: 0.8,
+    week: 0.6,
+    month: 0.4,
+    year: 0.2,
+};
+
+/**
+ * Parse a human- or machine-written date
+ * Handles ISO/RFC dates, relative dates ("3 days ago", "вчера"),
+ * month names in several languages ("12 січня 2025", "15. Januar 2025"),
+ * CJK dates ("2025年1月15日") and numeric d.m.y / m/d/y dates
+ */
+export function extractDate(
+    text: string,
+    options: DateParseOptions = {}
+): ExtractedDate | null {
+    const cleaned = text.replace(/\s+/g, " ").trim();
+    if (!cleaned) return null;
+
+    const now = options.now ?? new Date();
+
+    return (
+        parseMachineDate(cleaned) ??
+        parseRelativeDate(cleaned, now) ??
+        parseCjkDate(cleaned) ??
+        parseNumericDate(cleaned, options.lang) ??
+        parseMonthNameDate(cleaned, options.lang, now) ??
+        parseNativeDate(cleaned)
+    );
+}
+
+/**
+ * Infer a publish date from URL paths like /2025/01/15/ or /2025/01/
+ */
+export function extractDateFromUrl(url: string): ExtractedDate | null {
+    let path: string;
+    try {
+        path = new URL(url).pathname;
+    } catch {
+        return null;
+    }
+
+    const match =
+        /\/((?:19|20)\d{2})[/-](\d{1,2})(?:[/-](\d{1,2}))?(?=[/-]|$)/.exec(
+            path
+        );
+    if (!match) return null;
+
+    const [, year, month, day] = match;
+    const date = buildDate(+year, +month, day ? +day : 1);
+    if (!date) return null;
+
+    return { date, confidence: day ? 0.6 : 0.3, source: "url" };
+}
+
+/**
+ * ISO 8601 and RFC 2822 style dates with a time ("Tue, 10 Jun 2025 10:00:00 GMT")
+ * go straight to the JS parser, which keeps the time and timezone
+ */
+function parseMachineDate(text: string): ExtractedDate | null {
+    const isIso = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}.*)?$/.test(text);
+    const hasTime =
+        /\b\d{1,2}:\d{2}(:\d{2})?\b/.test(text) &&
+        /\b(?:19|20)\d{2}\b/.test(text);
+    if (!isIso && !hasTime) return null;
+
+    const date = new Date(text);
+    return isNaN(date.getTime())
+        ? null
+        : { date, confidence: 1, source: "absolute" };
+}
+
+function parseRelativeDate(text: string, now: Date): ExtractedDate | null {
+    if (YESTERDAY_PATTERN.test(text)) {
+        return {
+            date: dayjs(now).subtract(1, "day").toDate(),
+            confidence: 0.9,
+            source: "relative",
+        };
+    }
+    if (TODAY_PATTERN.test(text)) {
+        return { date: now, confidence: 0.9, source: "relative" };
+    }
+    if (!AGO_PATTERN.test(text)) return null;
+
+    const match = AMOUNT_UNIT_PATTERN.exec(text);
+    if (!match) return null;
+
+    const amount = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : 1;
+    const unitWord = match[2].toLowerCase();
+    const unit = UNIT_PREFIXES.find(([pattern]) => pattern.test(unitWord))?.[1];
+    if (!unit) return null;
+
+    return {
+        date: dayjs(now).subtract(amount, unit).toDate(),
+        confidence: RELATIVE_CONFIDENCE[unit],
+        source: "relative",
+    };
+}
+
+function parseCjkDate(text: string): ExtractedDate | null {
+    const match = /(\d{4})\s*[年년]\s*(\d{1,2})\s*[月월]\s*(\d{1,2})/.exec(
+        text
+    );
+    if (!match) return null;
+
+    const date = buildDate(+match[1], +match[2], +match[3]);
+    return date ? { date, confidence: 1, source: "absolute" } : null;
+}
+
+/**
+ * 15.01.2025, 15/01/2025, 01/15/2025, 2025/01/15
+ * Slashes are month-first for English pages, day-first otherwise
+ */
+function parseNumericDate(
+    text: string,
+    lang: string | null | undefined
+): ExtractedDate | null {
+    const yearFirst = /\b(\d{4})[./](\d{1,2})[./](\d{1,2})\b/.exec(text);
+    if (yearFirst) {
+        const date = buildDate(+yearFirst[1], +yearFirst[2], +yearFirst[3]);
+        return date ? { date, confidence: 1, source: "absolute" } : null;
+    }
+
+    const match = /\b(\d{1,2})([./])(\d{1,2})\2(\d{4})\b/.exec(text);
+    if (!match) return null;
+
+    const [, first, separator, second, year] = match;
+    const monthFirst = separator === "/" && (lang ?? "en") === "en";
+    let [day, month] = monthFirst ? [+second, +first] : [+first, +second];
+
+    // Obvious swaps: 25/12/2025 on an English page is still day-first
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+
+    const date = buildDate(+year, month, day);
+    if (!date) return null;
+
+    const ambiguous = day <= 12 && month <= 12 && day !== month;
+    return { date, confidence: ambiguous ? 0.8 : 1, source: "absolute" };
+}
+
+/**
+ * "January 15, 2025", "15. Januar 2025", "12 січня 2025", "Mar 3"
+ * The page language is tried first; a missing year is inferred from `now`
+ */
+function parseMonthNameDate(
+    text: string,
+    lang: string | null | undefined,
+    now: Date
+): ExtractedDate | null {
+    const month = findMonth(text, lang);
+    if (!month) return null;
+
+    const year = /\b((?:19|20)\d{2})\b/.exec(text)?.[1];
+    const rest = text.replace(/\b(?:19|20)\d{2}\b/, " ");
+    const day =
+        /(?:^|[^\d])(\d{1,2})(?:st|nd|rd|th|er|\.|-?го|-е)?(?![\d:])/i.exec(
+            rest
+        )?.[1];
+
+    if (year) {
+        const date = buildDate(+year, month, day ? +day : 1);
+        if (!date) return null;
+        return { date, confidence: day ? 1 : 0.5, source: "absolute" };
+    }
+
+    if (!day) return null;
+
+    // No year: assume the most recent such date not in the future
+    let date = buildDate(now.getFullYear(), month, +day);
+    if (date && date.getTime() > now.getTime() + 24 * 60 * 60 * 1000) {
+        date = buildDate(now.getFullYear() - 1, month, +day);
+    }
+    return date ? { date, confidence: 0.7, source: "absolute" } : null;
+}
+
+/**
+ * Month number (1-12) of the first month name in the text
+ */
+function findMonth(
+    text: string,
+    lang: string | null | undefined
+): number | null {
+    const primary = lang ? lang.toLowerCase().substring(0, 2) : "en";
+    const languages = [
+        primary,
+        "en",
+        ...Object.keys(MONTH_NAMES).filter((l) => l !== primary && l !== "en"),
+    ].filter((l) => MONTH_NAMES[l]);
+
+    for (const language of languages) {
+        const names = MONTH_NAMES[language];
+        for (let i = 0; i < names.length; i++) {
+            const pattern = new RegExp(
+                `(^|[^\\p{L}])(?:${names[i]})\\.?([^\\p{L}]|$)`,
+                "iu"
+            );
+            if (pattern.test(text)) return i + 1;
+        }
+    }
+    return null;
+}
+
+/**
+ * Words the JS Date parser is trusted with: English months and weekdays,
+ * time zones, AM/PM. It reads any word that starts like a month as that
+ * month ("Marketing 2025" becomes March)
+ */
+const NATIVE_DATE_WORD = new RegExp(
+    `^(?:${[
+        ...MONTH_NAMES.en,
+        "mon(?:day)?",
+        "tue(?:s(?:day)?)?",
+        "wed(?:nesday)?",
+        "thu(?:r(?:s(?:day)?)?)?",
+        "fri(?:day)?",
+        "sat(?:urday)?",
+        "sun(?:day)?",
+        "gmt",
+        "utc",
+        "[ecmp][sd]t",
+        "[ap]m",
+        "[a-z]",
+    ].join("|")})$`,
+    "i"
+);
+
+/**
+ * Last resort: the JS Date parser (RFC 2822 and friends)
+ * Only for strings with a year - it happily turns "Version 1.2" into a date -
+ * and no words other than date words
+ */
+function parseNativeDate(text: string): ExtractedDate | null {
+    if (!/\b(?:19|20)\d{2}\b/.test(text)) return null;
+    const words = text.match(/\p{L}+/gu) ?? [];
+    if (words.some((word) => !NATIVE_DATE_WORD.test(word))) return null;
+
+    const date = new Date(text);
+    return isNaN(date.getTime())
+        ? null
+        : { date, confidence: 1, source: "absolute" };
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Reject overflow like 31 February
+    return date.getUTCMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Give undated items the date found in their URL path
+ * Items keep their own date when they have one
+ */
+export function applyUrlDates(items: ParsedNewsItem[]): ParsedNewsItem[] {
+    for (const item of items) {
+        if (item.publishedAt) continue;
+
+        const fromUrl = extractDateFromUrl(item.url);
+        if (fromUrl) {
+            item.publishedAt = fromUrl.date;
+            item.dateConfidence = fromUrl.confidence;
+        }
+    }
+    return items;
+}
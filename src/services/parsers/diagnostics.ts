@@ -0,0 +1,143 @@
+import type {
+    FetchResult,
+    ParseDiagnostics,
+    ParsedPage,
+    ParseStatus,
+    SkipReason,
+} from "./types.js";
+
+/**
+ * Diagnostics for a parse that is about to read a fetched page
+ */
+export function createDiagnostics(
+    result?: Pick<FetchResult, "status" | "proxy"> | null,
+    strategy: string | null = null
+): ParseDiagnostics {
+    return {
+        status: "ok",
+        httpStatus: result?.status ?? null,
+        proxy: result?.proxy,
+        strategy,
+        skipped: {},
+    };
+}
+
+/**
+ * Take the HTTP status and proxy of the main request, for parsers that
+ * create their diagnostics before fetching
+ */
+export function recordFetch(
+    diagnostics: ParseDiagnostics,
+    result: Pick<FetchResult, "status" | "proxy">
+): void {
+    diagnostics.httpStatus = result.status ?? null;
+    diagnostics.proxy = result.proxy;
+}
+
+/**
+ * Count an entry dropped for the given reason
+ */
+export function countSkip(
+    diagnostics: ParseDiagnostics,
+    reason: SkipReason
+): void {
+    diagnostics.skipped[reason] = (diagnostics.skipped[reason] ?? 0) + 1;
+}
+
+/**
+ * Add the skip counts of another parse (next pages, fallback parsers)
+ */
+export function mergeSkipped(
+    target: ParseDiagnostics,
+    source: ParseDiagnostics
+): void {
+    for (const [reason, count] of Object.entries(source.skipped)) {
+        const key = reason as SkipReason;
+        target.skipped[key] = (target.skipped[key] ?? 0) + (count ?? 0);
+    }
+}
+
+/**
+ * Mark a parse as failed
+ */
+export function markFailure(
+    diagnostics: ParseDiagnostics,
+    status: ParseStatus,
+    error: unknown
+): void {
+    diagnostics.status = status;
+    diagnostics.message =
+        error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Failure class of an unsuccessful fetch
+ */
+export function classifyFetchFailure(result: FetchResult): ParseStatus {
+    switch (result.status) {
+        case 401:
+        case 403:
+        case 429:
+        case 451:
+            return "blocked";
+        case 404:
+        case 410:
+            return "not_found";
+    }
+    if (result.error?.startsWith("Timeout")) return "timeout";
+    return "fetch_error";
+}
+
+/**
+ * Empty page for a failed fetch
+ */
+export function fetchFailure(result: FetchResult): ParsedPage {
+    const diagnostics = createDiagnostics(result);
+    markFailure(diagnostics, classifyFetchFailure(result), result.error);
+    return { items: [], nextPageUrl: null, diagnostics };
+}
+
+/**
+ * Empty page for a response that could not be parsed
+ */
+export function parseFailure(
+    error: unknown,
+    result?: Pick<FetchResult, "status" | "proxy"> | null,
+    strategy: string | null = null
+): ParsedPage {
+    const diagnostics = createDiagnostics(result, strategy);
+    markFailure(diagnostics, "parse_error", error);
+    return { items: [], nextPageUrl: null, diagnostics };
+}
+
+/**
+ * One-line summary for logs and pipeline errors:
+ * "blocked (HTTP 403) through http://proxy:8080 - HTTP 403: Forbidden"
+ * or "ok via article, skipped older_than_since=3"
+ */
+export function describeDiagnostics(diagnostics: ParseDiagnostics): string {
+    let text = diagnostics.status;
+    if (diagnostics.httpStatus !== null && diagnostics.status !== "ok") {
+        text += ` (HTTP ${diagnostics.httpStatus})`;
+    }
+    if (diagnostics.strategy) {
+        text += ` via ${diagnostics.strategy}`;
+    }
+    if (diagnostics.proxy) {
+        text += ` through ${diagnostics.proxy}`;
+    }
+    if (diagnostics.unchanged) {
+        text += ", unchanged since last fetch";
+    }
+    if (diagnostics.message) {
+        text += ` - ${diagnostics.message}`;
+    }
+
+    const skipped = Object.entries(diagnostics.skipped)
+        .filter(([, count]) => count)
+        .map(([reason, count]) => `${reason}=${count}`);
+    if (skipped.length > 0) {
+        text += `, skipped ${skipped.join(" ")}`;
+    }
+    return text;
+}
@@ -0,0 +1,452 @@
+import * as cheerio from "cheerio";
+import type {
+    NewsParser,
+    ParseDiagnostics,
+    ParseOutcome,
+    ParsedPage,
+} from "./types.js";
+import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import {
+    HtmlBlogParser,
+    discoverFeedUrl,
+    findNextPageUrl,
+} from "./htmlBlogParser.js";
+import {
+    parseDate,
+    cleanText,
+    createSnippet,
+    normalizeUrl,
+    isAfterDate,
+} from "./utils.js";
+import { getFetcher } from "./fetchers.js";
+import { countSkip, createDiagnostics, fetchFailure } from "./diagnostics.js";
+
+/**
+ * Keys that may hold a post title / URL / date / description in embedded data
+ */
+const TITLE_KEYS = ["title", "headline", "name"];
+const URL_KEYS = ["url", "href", "permalink", "link", "path", "slug"];
+const DATE_KEYS = [
+    "datePublished",
+    "publishedAt",
+    "published_at",
+    "publishDate",
+    "publish_date",
+    "date",
+    "createdAt",
+    "created_at",
+];
+const DESCRIPTION_KEYS = ["description", "excerpt", "summary", "subtitle"];
+
+/**
+ * JSON-LD types describing a single post
+ */
+const POST_TYPES = ["BlogPosting", "NewsArticle", "Article", "TechArticle"];
+
+/**
+ * Maximum depth when walking embedded JSON payloads
+ */
+const MAX_WALK_DEPTH = 12;
+
+/**
+ * Parser for client-rendered blogs (Next.js, Nuxt, JSON-LD)
+ * Their post lists are in the HTML as embedded JSON even when the DOM is empty,
+ * so no headless browser is needed. Pages without embedded posts are handed
+ * to the generic HtmlBlogParser without fetching them again
+ */
+export class EmbeddedDataParser implements NewsParser {
+    name = "Embedded Data Parser";
+
+    private htmlParser = new HtmlBlogParser();
+
+    canParse(_url: string): boolean {
+        // Content-based fallback, always returns true
+        return true;
+    }
+
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        const { items, diagnostics } = await this.parsePage(url, tool, since);
+        return { items, diagnostics };
+    }
+
+    async parsePage(url: string, tool: Tool, since: Date): Promise<ParsedPage> {
+        console.log(`[EmbeddedDataParser] Fetching: ${url}`);
+
+        const result = await getFetcher(tool).fetch(url);
+        if (!result.ok) {
+            console.error(
+                `[EmbeddedDataParser] Failed to fetch: ${result.error}`
+            );
+            return fetchFailure(result);
+        }
+
+        // Feeds and sitemaps at a page URL are routed by the HTML parser
+        if (result.kind && result.kind !== "html") {
+            return this.htmlParser.parseDocument(result, url, tool, since);
+        }
+
+        const diagnostics = createDiagnostics(result);
+        try {
+            const $ = cheerio.load(result.text);
+
+            // An advertised feed beats embedded data - let the HTML parser use it
+            if (!discoverFeedUrl($, url)) {
+                const news = this.extract($, url, since, diagnostics);
+                if (news.length > 0) {
+                    console.log(
+                        `[EmbeddedDataParser] Parsed ${news.length} articles`
+                    );
+                    return {
+                        items: news,
+                        nextPageUrl: findNextPageUrl($, url),
+                        diagnostics,
+                    };
+                }
+            }
+        } catch (error) {
+            console.error(`[EmbeddedDataParser] Parse error:`, error);
+        }
+
+        const page = await this.htmlParser.parseDocument(
+            result,
+            url,
+            tool,
+            since
+        );
+        // Embedded posts that were all too old explain an empty page
+        // better than the selectors of the HTML fallback
+        if (page.items.length === 0 && diagnostics.skipped.older_than_since) {
+            return { ...page, diagnostics };
+        }
+        return page;
+    }
+
+    /**
+     * Extract posts from JSON-LD, __NEXT_DATA__ and Nuxt payloads
+     * The first source that yields posts wins; diagnostics describe
+     * the winning (or last tried) source
+     */
+    private extract(
+        $: cheerio.CheerioAPI,
+        baseUrl: string,
+        since: Date,
+        diagnostics: ParseDiagnostics
+    ): ParsedNewsItem[] {
+        const sources: [string, () => unknown[]][] = [
+            ["JSON-LD", () => this.extractJsonLd($)],
+            ["__NEXT_DATA__", () => this.extractNextData($)],
+            ["Nuxt", () => this.extractNuxtData($)],
+        ];
+
+        for (const [source, extractPosts] of sources) {
+            const posts = extractPosts();
+            if (posts.length === 0) continue;
+
+            diagnostics.strategy = source;
+            diagnostics.skipped = {};
+            const news = this.toNewsItems(posts, baseUrl, since, diagnostics);
+            if (news.length > 0) {
+                console.log(
+                    `[EmbeddedDataParser] Found ${news.length} posts in ${source}`
+                );
+                return news;
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * BlogPosting / ItemList / Blog.blogPost nodes from application/ld+json
+     */
+    private extractJsonLd($: cheerio.CheerioAPI): unknown[] {
+        const posts: unknown[] = [];
+
+        $("script[type='application/ld+json']").each((_, el) => {
+            const data = safeJsonParse($(el).contents().text());
+            if (!data) return;
+
+            const nodes = toArray(data).flatMap((node) =>
+                isRecord(node) && Array.isArray(node["@graph"])
+                    ? node["@graph"]
+                    : [node]
+            );
+
+            for (const node of nodes) {
+                if (!isRecord(node)) continue;
+                const types = toArray(node["@type"]);
+
+                if (types.some((t) => POST_TYPES.includes(String(t)))) {
+                    posts.push(node);
+                } else if (types.includes("ItemList")) {
+                    for (const element of toArray(node.itemListElement)) {
+                        // ListItem may wrap the post in "item"
+                        if (isRecord(element) && isRecord(element.item)) {
+                            posts.push({ ...element, ...element.item });
+                        } else {
+                            posts.push(element);
+                        }
+                    }
+                } else if (types.includes("Blog")) {
+                    posts.push(...toArray(node.blogPost));
+                }
+            }
+        });
+
+        return posts;
+    }
+
+    /**
+     * Largest list of post-like objects in Next.js __NEXT_DATA__
+     */
+    private extractNextData($: cheerio.CheerioAPI): unknown[] {
+        const data = safeJsonParse($("script#__NEXT_DATA__").contents().text());
+        if (!isRecord(data)) return [];
+
+        return findPostList(data.props ?? data);
+    }
+
+    /**
+     * Largest list of post-like objects in Nuxt payloads
+     * Nuxt 3 ships a devalue-serialized __NUXT_DATA__ script,
+     * Nuxt 2 assigns window.__NUXT__ (only plain JSON literals are supported)
+     */
+    private extractNuxtData($: cheerio.CheerioAPI): unknown[] {
+        const nuxt3 = safeJsonParse(
+            $("script#__NUXT_DATA__").contents().text()
+        );
+        if (Array.isArray(nuxt3)) {
+            return findPostList(unflattenDevalue(nuxt3));
+        }
+
+        let nuxt2: unknown = null;
+        $("script:not([src])").each((_, el) => {
+            const text = $(el).contents().text();
+            const match = /window\.__NUXT__\s*=\s*(\{[\s\S]*\})\s*;?\s*$/.exec(
+                text.trim()
+            );
+            if (match) {
+                nuxt2 = safeJsonParse(match[1]);
+                return false;
+            }
+            return undefined;
+        });
+
+        return nuxt2 ? findPostList(nuxt2) : [];
+    }
+
+    private toNewsItems(
+        posts: unknown[],
+        baseUrl: string,
+        since: Date,
+        diagnostics: ParseDiagnostics
+    ): ParsedNewsItem[] {
+        const news: ParsedNewsItem[] = [];
+        const seenUrls = new Set<string>();
+        const listingUrl = normalizeUrl(baseUrl, baseUrl);
+
+        for (const post of posts) {
+            if (!isRecord(post)) continue;
+
+            const title = cleanText(pickString(post, TITLE_KEYS));
+            const href = pickString(post, URL_KEYS);
+            if (!title || title.length < 5) {
+                countSkip(diagnostics, "missing_title");
+                continue;
+            }
+            if (!href) {
+                countSkip(diagnostics, "missing_link");
+                continue;
+            }
+
+            const link = resolvePostUrl(href, post, baseUrl);
+            if (link === listingUrl) {
+                countSkip(diagnostics, "filtered_link");
+                continue;
+            }
+            if (seenUrls.has(link)) {
+                countSkip(diagnostics, "duplicate");
+                continue;
+            }
+
+            const publishedAt = pickDate(post);
+            if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
+                continue;
+            }
+
+            const description = cleanText(pickString(post, DESCRIPTION_KEYS));
+
+            seenUrls.add(link);
+            news.push({
+                title,
+                url: link,
+                publishedAt,
+                rawContent: description,
+                snippet: createSnippet(description),
+            });
+        }
+
+        return news.slice(0, 20);
+    }
+}
+
+/**
+ * Walk a JSON payload and return the best array of post-like objects
+ * Dated items weigh more, so navigation menus and author lists lose to posts
+ */
+function findPostList(root: unknown): unknown[] {
+    let best: unknown[] = [];
+    let bestScore = 0;
+
+    const walk = (value: unknown, depth: number): void => {
+        if (depth > MAX_WALK_DEPTH || value === null) return;
+
+        if (Array.isArray(value)) {
+            const postLike = value.filter(isPostLike);
+            const dated = postLike.filter(
+                (post) => isRecord(post) && pickDate(post) !== null
+            ).length;
+            const score = postLike.length + dated * 2;
+            if (postLike.length >= 2 && score > bestScore) {
+                best = postLike;
+                bestScore = score;
+            }
+            value.forEach((item) => walk(item, depth + 1));
+        } else if (isRecord(value)) {
+            Object.values(value).forEach((item) => walk(item, depth + 1));
+        }
+    };
+
+    walk(root, 0);
+    return best;
+}
+
+function isPostLike(value: unknown): boolean {
+    return (
+        isRecord(value) &&
+        pickString(value, TITLE_KEYS) !== "" &&
+        pickString(value, URL_KEYS) !== ""
+    );
+}
+
+/**
+ * Build an absolute post URL
+ * Bare slugs are resolved relative to the listing page (blog/ + slug)
+ */
+function resolvePostUrl(
+    href: string,
+    post: Record<string, unknown>,
+    baseUrl: string
+): string {
+    const isBareSlug =
+        !href.includes("/") &&
+        typeof post.slug === "string" &&
+        href === post.slug;
+    if (isBareSlug) {
+        const listing = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+        return normalizeUrl(href, listing);
+    }
+    return normalizeUrl(href, baseUrl);
+}
+
+/**
+ * First non-empty string among the given keys
+ * Handles WordPress-style { rendered: "..." } and JSON-LD { "@id": "..." } values
+ */
+function pickString(obj: Record<string, unknown>, keys: string[]): string {
+    for (const key of keys) {
+        const value = obj[key];
+        if (typeof value === "string" && value.trim()) return value.trim();
+        if (isRecord(value)) {
+            const nested = value.rendered ?? value["@id"] ?? value.current;
+            if (typeof nested === "string" && nested.trim()) {
+                return nested.trim();
+            }
+        }
+    }
+    return "";
+}
+
+function pickDate(obj: Record<string, unknown>): Date | null {
+    for (const key of DATE_KEYS) {
+        const value = obj[key];
+        if (typeof value === "number") {
+            // Unix timestamps in seconds or milliseconds
+            const date = new Date(value < 1e12 ? value * 1000 : value);
+            if (!isNaN(date.getTime())) return date;
+        }
+        if (typeof value === "string") {
+            const date = parseDate(value);
+            if (date) return date;
+        }
+    }
+    return null;
+}
+
+/**
+ * Revive a devalue-flattened payload (Nuxt 3 __NUXT_DATA__)
+ * Values are indexes into the root array; tagged arrays like
+ * ["Reactive", 1] wrap another value
+ */
+function unflattenDevalue(values: unknown[]): unknown {
+    const cache = new Map<number, unknown>();
+
+    const hydrate = (index: number, depth: number): unknown => {
+        if (typeof index !== "number" || index < 0 || depth > 50) {
+            return undefined;
+        }
+        if (cache.has(index)) return cache.get(index);
+
+        const value = values[index];
+
+        if (Array.isArray(value)) {
+            if (typeof value[0] === "string") {
+                // Tagged value: ["Reactive", i], ["Ref", i], ["Date", iso], ...
+                const [tag, inner] = value;
+                const revived =
+                    tag === "Date"
+                        ? inner
+                        : hydrate(inner as number, depth + 1);
+                cache.set(index, revived);
+                return revived;
+            }
+            const array: unknown[] = [];
+            cache.set(index, array);
+            value.forEach((i) => array.push(hydrate(i as number, depth + 1)));
+            return array;
+        }
+
+        if (isRecord(value)) {
+            const obj: Record<string, unknown> = {};
+            cache.set(index, obj);
+            for (const [key, i] of Object.entries(value)) {
+                obj[key] = hydrate(i as number, depth + 1);
+            }
+            return obj;
+        }
+
+        cache.set(index, value);
+        return value;
+    };
+
+    return hydrate(0, 0);
+}
+
+function safeJsonParse(text: string): unknown {
+    if (!text.trim()) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toArray(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,185 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { config } from "../../config/env.js";
+import type { FetchBackend, Tool } from "../../db/types.js";
+import type { Fetcher, FetchOptions, FetchResult } from "./types.js";
+import { fetchUrl, getRandomUserAgent } from "./utils.js";
+import { replayFixture, saveFixture } from "./httpFixtures.js";
+import { takePrefetched } from "./httpCache.js";
+import { pickProxy, proxyPool, toolProxyRule } from "./proxyPool.js";
+import { requestScheduler } from "./requestScheduler.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Largest rendered DOM accepted from Chromium
+ */
+const MAX_DOM_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Default backend: plain HTTP via fetchUrl
+ */
+export class HttpFetcher implements Fetcher {
+    name = "http";
+
+    fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+        return fetchUrl(url, options);
+    }
+}
+
+/**
+ * Headless Chromium backend for SPA and Cloudflare-protected sites
+ * Runs the local Chromium binary (CHROMIUM_PATH) with --dump-dom, which
+ * executes the page scripts for BROWSER_RENDER_BUDGET_MS of virtual time
+ * and prints the final DOM. Renders run one at a time - each launch
+ * is a full browser process - and go through the request scheduler like
+ * HTTP requests. Proxied hosts get a proxy of the pool as --proxy-server
+ * (scheme://host:port only); proxies with credentials are refused, since
+ * Chromium ignores them there and the command line is readable by any user
+ */
+export class BrowserFetcher implements Fetcher {
+    name = "browser";
+
+    private queue: Promise<unknown> = Promise.resolve();
+
+    fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+        const ready = takePrefetched(this.name, url);
+        if (ready) return Promise.resolve(ready);
+
+        const run = this.queue.then(() => this.render(url, options));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async render(
+        url: string,
+        options: FetchOptions
+    ): Promise<FetchResult> {
+        if (config.fetchMode === "replay") {
+            return replayFixture(url, this.name);
+        }
+
+        const { timeoutMs = config.browserTimeoutMs } = options;
+        const args = [
+            "--headless=new",
+            "--disable-gpu",
+            "--no-sandbox",
+            "--disable-dev-shm-usage",
+            "--hide-scrollbars",
+            "--mute-audio",
+            `--user-agent=${getRandomUserAgent()}`,
+            `--virtual-time-budget=${config.browserRenderBudgetMs}`,
+        ];
+        const proxy = pickProxy(url, options.proxy);
+        if (proxy?.authenticated) {
+            return {
+                ok: false,
+                contentType: "",
+                text: "",
+                error: `Proxy ${proxy.label} needs credentials, which the browser backend cannot pass`,
+                proxy: proxy.label,
+            };
+        }
+        if (proxy) {
+            args.push(`--proxy-server=${proxy.label}`);
+        }
+        args.push("--dump-dom", url);
+
+        let result: FetchResult;
+        try {
+            const { stdout } = await requestScheduler.schedule(url, () => {
+                console.log(`[BrowserFetcher] Rendering: ${url}`);
+                return execFileAsync(config.chromiumPath, args, {
+                    timeout: timeoutMs,
+                    maxBuffer: MAX_DOM_BYTES,
+                });
+            });
+
+            result = stdout.trim()
+                ? {
+                      ok: true,
+                      contentType: "text/html",
+                      text: stdout,
+                      fetchedAt: new Date(),
+                      kind: "html",
+                  }
+                : {
+                      ok: false,
+                      contentType: "",
+                      text: "",
+                      error: "Empty DOM from browser",
+                  };
+        } catch (error) {
+            const err = error as NodeJS.ErrnoException & { killed?: boolean };
+            const message =
+                err.code === "ENOENT"
+                    ? `Chromium not found at "${config.chromiumPath}" (set CHROMIUM_PATH)`
+                    : err.killed
+                      ? `Timeout after ${timeoutMs}ms`
+                      : err.message;
+            result = { ok: false, contentType: "", text: "", error: message };
+        }
+
+        if (proxy) {
+            result.proxy = proxy.label;
+            if (result.ok) {
+                proxyPool.reportSuccess(proxy);
+            } else {
+                proxyPool.reportFailure(proxy);
+            }
+        }
+
+        if (config.fetchMode === "record") {
+            await saveFixture(
+                {
+                    url,
+                    status: result.ok ? 200 : 0,
+                    statusText: result.ok ? "OK" : "",
+                    headers: result.ok ? { "content-type": "text/html" } : {},
+                    body: result.text,
+                    error: result.error,
+                },
+                this.name
+            );
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Backend with a tool's proxy rule (tools.use_proxy) applied to every request
+ * Keeps the backend name, so prefetched pages and fixtures are shared
+ */
+class ProxyRuleFetcher implements Fetcher {
+    name: string;
+
+    constructor(
+        private backend: Fetcher,
+        private proxy: boolean
+    ) {
+        this.name = backend.name;
+    }
+
+    fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+        return this.backend.fetch(url, { proxy: this.proxy, ...options });
+    }
+}
+
+const fetchers: Record<FetchBackend, Fetcher> = {
+    http: new HttpFetcher(),
+    browser: new BrowserFetcher(),
+};
+
+/**
+ * Get the fetch backend configured for a tool (tools.fetch_backend)
+ * Tools without a backend use plain HTTP; tools with use_proxy set
+ * override the PROXY_DOMAINS routing
+ */
+export function getFetcher(
+    tool?: Pick<Tool, "fetch_backend" | "use_proxy"> | null
+): Fetcher {
+    const backend = fetchers[tool?.fetch_backend ?? "http"] ?? fetchers.http;
+    const proxy = toolProxyRule(tool);
+    return proxy === undefined ? backend : new ProxyRuleFetcher(backend, proxy);
+}
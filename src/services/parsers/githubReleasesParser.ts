@@ -0,0 +1,236 @@
+import type { NewsParser, ParseOutcome } from "./types.js";
+import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import { config } from "../../config/env.js";
+import { RssParser } from "./rssParser.js";
+import {
+    fetchUrl,
+    parseDate,
+    cleanText,
+    createSnippet,
+    isAfterDate,
+} from "./utils.js";
+import { countSkip, createDiagnostics, parseFailure } from "./diagnostics.js";
+import { toolProxyRule } from "./proxyPool.js";
+
+/**
+ * GitHub releases parser
+ * For open-source tools whose real news is their release history.
+ * Reads the REST API (optionally authenticated with GITHUB_TOKEN) and
+ * falls back to the public releases Atom feed when the API is unavailable
+ */
+export class GitHubReleasesParser implements NewsParser {
+    name = "GitHub Releases Parser";
+    // Releases come from the API, not from the releases page
+    readsSourceUrl = false;
+
+    private static URL_PATTERN = /github\.com\/([\w.-]+)\/([\w.-]+)\/releases/i;
+
+    canParse(url: string): boolean {
+        return GitHubReleasesParser.URL_PATTERN.test(url);
+    }
+
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        const match = GitHubReleasesParser.URL_PATTERN.exec(url);
+        if (!match) {
+            const { items, diagnostics } = parseFailure(
+                new Error(`Not a GitHub releases URL: ${url}`)
+            );
+            return { items, diagnostics };
+        }
+
+        const [, owner, repo] = match;
+        const options = tool.parser_config?.github ?? {};
+        const skipDrafts = options.skipDrafts ?? true;
+        const skipNightly = options.skipNightly ?? true;
+        let nightlyPattern: RegExp;
+        try {
+            nightlyPattern = new RegExp(
+                options.nightlyPattern ?? "nightly",
+                "i"
+            );
+        } catch (error) {
+            console.error(
+                `[GitHubReleasesParser] Invalid nightlyPattern for ${tool.name}:`,
+                error
+            );
+            const { items, diagnostics } = parseFailure(
+                new Error(
+                    `Invalid github.nightlyPattern: ${error instanceof Error ? error.message : String(error)}`
+                )
+            );
+            return { items, diagnostics };
+        }
+
+        const isSkipped = (tag: string, draft: boolean): boolean =>
+            (skipDrafts && draft) || (skipNightly && nightlyPattern.test(tag));
+
+        const apiUrl = `https://api.github.com/repos/${owner}/${repo}/releases?per_page=30`;
+        console.log(`[GitHubReleasesParser] Fetching: ${apiUrl}`);
+
+        const headers: Record<string, string> = {
+            Accept: "application/vnd.github+json",
+            "X-GitHub-Api-Version": "2022-11-28",
+        };
+        if (config.githubToken) {
+            headers.Authorization = `Bearer ${config.githubToken}`;
+        }
+
+        const result = await fetchUrl(apiUrl, {
+            headers,
+            proxy: toolProxyRule(tool),
+        });
+        if (!result.ok) {
+            console.error(
+                `[GitHubReleasesParser] API failed (${result.error}), falling back to Atom feed`
+            );
+            return this.parseAtomFeed(owner, repo, tool, since, isSkipped);
+        }
+
+        const diagnostics = createDiagnostics(result, "api");
+        try {
+            const releases = JSON.parse(result.text) as GitHubRelease[];
+            const news: ParsedNewsItem[] = [];
+
+            for (const release of releases) {
+                if (isSkipped(release.tag_name, release.draft)) {
+                    countSkip(diagnostics, "excluded");
+                    continue;
+                }
+
+                const publishedAt = parseDate(
+                    release.published_at || release.created_at || ""
+                );
+                if (!isAfterDate(publishedAt, since)) {
+                    countSkip(diagnostics, "older_than_since");
+                    continue;
+                }
+
+                const rawContent = cleanText(
+                    markdownToText(release.body ?? "")
+                );
+
+                news.push({
+                    title: releaseTitle(release.tag_name, release.name),
+                    url: release.html_url,
+                    publishedAt,
+                    rawContent,
+                    snippet: createSnippet(rawContent),
+                    author: release.author?.login,
+                    tags: release.prerelease
+                        ? ["release", "prerelease"]
+                        : ["release"],
+                });
+            }
+
+            console.log(
+                `[GitHubReleasesParser] Parsed ${news.length} releases for ${owner}/${repo}`
+            );
+            return { items: news, diagnostics };
+        } catch (error) {
+            console.error(`[GitHubReleasesParser] Parse error:`, error);
+            const failure = parseFailure(error, result, "api");
+            return { items: [], diagnostics: failure.diagnostics };
+        }
+    }
+
+    /**
+     * Fallback: read the public releases Atom feed
+     * The feed carries no draft/prerelease flags, so only the nightly filter applies
+     */
+    private async parseAtomFeed(
+        owner: string,
+        repo: string,
+        tool: Tool,
+        since: Date,
+        isSkipped: (tag: string, draft: boolean) => boolean
+    ): Promise<ParseOutcome> {
+        const feedUrl = `https://github.com/${owner}/${repo}/releases.atom`;
+        const { items, diagnostics } = await new RssParser().parse(
+            feedUrl,
+            tool,
+            since
+        );
+        diagnostics.strategy = "atom fallback";
+
+        const releases = items
+            .filter((item) => {
+                const tag = tagFromUrl(item.url);
+                if (!isSkipped(tag, false)) return true;
+                countSkip(diagnostics, "excluded");
+                return false;
+            })
+            // Atom ids differ from the API - drop them so both paths
+            // deduplicate the same release by URL
+            .map((item) => ({
+                ...item,
+                externalId: undefined,
+                tags: ["release"],
+            }));
+        return { items: releases, diagnostics };
+    }
+}
+
+/**
+ * Read the tag from a release URL (.../releases/tag/<tag>)
+ * Falls back to the raw segment when it is not valid percent-encoding
+ */
+function tagFromUrl(url: string): string {
+    const segment = url.split("/releases/tag/")[1] ?? "";
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Build a title from the tag and the (optional) release name
+ */
+function releaseTitle(tag: string, name: string | null): string {
+    const cleanName = cleanText(name ?? "");
+    if (!cleanName || cleanName === tag) return tag;
+    if (cleanName.includes(tag)) return cleanName;
+    return `${tag}: ${cleanName}`;
+}
+
+/**
+ * Convert GitHub-flavoured markdown release notes to plain text
+ */
+function markdownToText(markdown: string): string {
+    return (
+        markdown
+            // Code fences - keep the code
+            .replace(/```[\w-]*\n?/g, "")
+            // Images
+            .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+            // Links [text](url) -> text
+            .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+            // HTML tags and comments
+            .replace(/<!--[\s\S]*?-->/g, "")
+            .replace(/<[^>]+>/g, "")
+            // Headings, blockquotes, list markers
+            .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+            .replace(/^\s*>\s?/gm, "")
+            .replace(/^\s*[-*+]\s+/gm, "- ")
+            // Emphasis and inline code
+            .replace(/(\*\*|__)(.*?)\1/g, "$2")
+            .replace(/\*(\S[^*]*)\*/g, "$1")
+            .replace(/(^|\W)_(\S[^_]*)_(?=\W|$)/g, "$1$2")
+            .replace(/`([^`]+)`/g, "$1")
+            // Horizontal rules
+            .replace(/^\s*([-*_])\1{2,}\s*$/gm, "")
+    );
+}
+
+// Type definitions for the GitHub releases API
+interface GitHubRelease {
+    tag_name: string;
+    name: string | null;
+    body: string | null;
+    html_url: string;
+    draft: boolean;
+    prerelease: boolean;
+    created_at: string | null;
+    published_at: string | null;
+    author?: { login: string } | null;
+}
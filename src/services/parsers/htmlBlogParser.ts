@@ -1,19 +1,129 @@
 import * as cheerio from "cheerio";
 import type { Element } from "domhandler";
-import type { NewsParser } from "./types.js";
+import type {
+    ContentKind,
+    FetchResult,
+    NewsParser,
+    ParseDiagnostics,
+    ParseOutcome,
+    ParsedPage,
+} from "./types.js";
 import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import { updateToolFeedUrl } from "../../db/queries/tools.js";
+import { RssParser } from "./rssParser.js";
+import { SitemapParser } from "./sitemapParser.js";
+import { sniffContent } from "./responseDecoder.js";
 import {
-    fetchUrl,
-    parseDate,
     cleanText,
     createSnippet,
     normalizeUrl,
     isAfterDate,
 } from "./utils.js";
+import { getFetcher } from "./fetchers.js";
+import {
+    countSkip,
+    createDiagnostics,
+    fetchFailure,
+    parseFailure,
+    recordFetch,
+} from "./diagnostics.js";
+import { extractDate, extractDateFromUrl } from "./dateParser.js";
+import type { DateParseOptions } from "./dateParser.js";
+
+/**
+ * Feed MIME types recognized by autodiscovery
+ */
+const FEED_TYPES = [
+    "application/rss+xml",
+    "application/atom+xml",
+    "application/feed+json",
+];
+
+/**
+ * Find a feed advertised via <link rel="alternate" type="...">
+ */
+export function discoverFeedUrl(
+    $: cheerio.CheerioAPI,
+    baseUrl: string
+): string | null {
+    const links = $("link[rel~='alternate'][href]").toArray();
+
+    for (const el of links) {
+        const $link = $(el);
+        const type = ($link.attr("type") || "").toLowerCase().trim();
+        const href = $link.attr("href") || "";
+        const title = ($link.attr("title") || "").toLowerCase();
+
+        if (!FEED_TYPES.includes(type)) continue;
+        // Skip comment feeds
+        if (title.includes("comments") || /\/comments?\//i.test(href)) continue;
+
+        return normalizeUrl(href, baseUrl);
+    }
+
+    return null;
+}
+
+/**
+ * Find the link to the next (older) listing page
+ * Checks an explicit selector, rel="next", then numbered pagination
+ * (a link to /page/N+1 or ?page=N+1 of the current page)
+ */
+export function findNextPageUrl(
+    $: cheerio.CheerioAPI,
+    baseUrl: string,
+    selector?: string
+): string | null {
+    const explicit =
+        (selector && $(selector).first().attr("href")) ||
+        $("link[rel~='next'][href]").first().attr("href") ||
+        $("a[rel~='next'][href]").first().attr("href");
+    if (explicit) {
+        const nextUrl = normalizeUrl(explicit, baseUrl);
+        return isSameSite(nextUrl, baseUrl) && nextUrl !== baseUrl
+            ? nextUrl
+            : null;
+    }
+
+    const nextPage = currentPageNumber(baseUrl) + 1;
+    const pagePattern = new RegExp(
+        `(/page/${nextPage}/?$)|([?&](page|p)=${nextPage}(&|$))`,
+        "i"
+    );
+
+    for (const el of $("a[href]").toArray()) {
+        const href = normalizeUrl($(el).attr("href") || "", baseUrl).replace(
+            /#.*$/,
+            ""
+        );
+        if (pagePattern.test(href) && isSameSite(href, baseUrl)) {
+            return href;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Page number of a listing URL (/page/N or ?page=N), 1 if none
+ */
+function currentPageNumber(url: string): number {
+    const match = /\/page\/(\d+)|[?&](?:page|p)=(\d+)/i.exec(url);
+    return match ? parseInt(match[1] ?? match[2], 10) : 1;
+}
+
+function isSameSite(url: string, baseUrl: string): boolean {
+    try {
+        return new URL(url).hostname === new URL(baseUrl).hostname;
+    } catch {
+        return false;
+    }
+}
 
 /**
  * Generic HTML blog parser
- * Uses common patterns to extract blog posts from HTML pages
+ * Uses common patterns to extract blog posts from HTML pages.
+ * If the page advertises a feed via <link rel="alternate">, the feed is used instead
  */
 export class HtmlBlogParser implements NewsParser {
     name = "HTML Blog Parser";
@@ -23,31 +133,60 @@ export class HtmlBlogParser implements NewsParser {
         return true;
     }
 
-    async parse(
-        url: string,
-        tool: Tool,
-        since: Date
-    ): Promise<ParsedNewsItem[]> {
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        const { items, diagnostics } = await this.parsePage(url, tool, since);
+        return { items, diagnostics };
+    }
+
+    async parsePage(url: string, tool: Tool, since: Date): Promise<ParsedPage> {
         console.log(`[HtmlBlogParser] Fetching: ${url}`);
 
-        const result = await fetchUrl(url);
+        const result = await getFetcher(tool).fetch(url);
         if (!result.ok) {
             console.error(`[HtmlBlogParser] Failed to fetch: ${result.error}`);
-            return [];
+            return fetchFailure(result);
         }
 
-        // Check if it might be RSS/XML
-        if (
-            result.contentType.includes("xml") ||
-            result.text.trim().startsWith("<?xml")
-        ) {
-            console.log("[HtmlBlogParser] Content appears to be XML, skipping");
-            return [];
+        return this.parseDocument(result, url, tool, since);
+    }
+
+    /**
+     * Parse an already fetched page
+     * Used directly by parsers that fall back to generic scraping.
+     * Feeds and sitemaps served at a page URL go to their own parsers
+     */
+    async parseDocument(
+        result: FetchResult,
+        url: string,
+        tool: Tool,
+        since: Date
+    ): Promise<ParsedPage> {
+        const kind =
+            result.kind ?? sniffContent(result.contentType, result.text);
+        if (kind !== "html") {
+            return this.parseOtherContent(kind, result, url, tool, since);
         }
 
         try {
             const $ = cheerio.load(result.text);
-            const news: ParsedNewsItem[] = [];
+
+            // Prefer an advertised feed over scraping
+            const feedUrl = discoverFeedUrl($, url);
+            if (feedUrl) {
+                const feedPage = await this.parseDiscoveredFeed(
+                    feedUrl,
+                    tool,
+                    since
+                );
+                if (feedPage) return feedPage;
+            }
+
+            let news: ParsedNewsItem[] = [];
+            let diagnostics = createDiagnostics(result);
+            const dateOptions: DateParseOptions = {
+                lang: tool.lang,
+                now: result.fetchedAt,
+            };
 
             // Try different common blog post selectors
             const selectors = this.getArticleSelectors();
@@ -60,6 +199,9 @@ export class HtmlBlogParser implements NewsParser {
                     `[HtmlBlogParser] Found ${articles.length} articles with selector: ${selector.container}`
                 );
 
+                // Skip counts describe the last selector tried
+                diagnostics = createDiagnostics(result, selector.container);
+                news = [];
                 articles.each((_, el) => {
                     const element = el as Element;
                     const article = $(element);
@@ -68,7 +210,9 @@ export class HtmlBlogParser implements NewsParser {
                         article,
                         selector,
                         url,
-                        since
+                        since,
+                        dateOptions,
+                        diagnostics
                     );
                     if (item) {
                         news.push(item);
@@ -79,16 +223,102 @@ export class HtmlBlogParser implements NewsParser {
                 if (news.length > 0) break;
             }
 
+            // Nothing matched, or only entries without title/link
+            if (news.length === 0 && !diagnostics.skipped.older_than_since) {
+                diagnostics.status = "empty_selectors";
+                if (!diagnostics.strategy) {
+                    diagnostics.message = "No article selectors matched";
+                }
+            }
+
             // Limit to most recent items
             const limitedNews = news.slice(0, 20);
             console.log(
                 `[HtmlBlogParser] Parsed ${limitedNews.length} articles`
             );
-            return limitedNews;
+            return {
+                items: limitedNews,
+                nextPageUrl: findNextPageUrl($, url),
+                diagnostics,
+            };
         } catch (error) {
             console.error(`[HtmlBlogParser] Parse error:`, error);
-            return [];
+            return parseFailure(error, result);
+        }
+    }
+
+    /**
+     * Route a page that turned out not to be HTML
+     * Feeds are parsed from the fetched body; sitemaps are fetched again by
+     * SitemapParser, which walks sitemap indexes itself
+     */
+    private async parseOtherContent(
+        kind: ContentKind,
+        result: FetchResult,
+        url: string,
+        tool: Tool,
+        since: Date
+    ): Promise<ParsedPage> {
+        console.log(`[HtmlBlogParser] Content is ${kind}, not HTML: ${url}`);
+
+        if (kind === "feed") {
+            const page = new RssParser().parseFeed(
+                result.text,
+                result.contentType,
+                tool,
+                since,
+                url
+            );
+            recordFetch(page.diagnostics, result);
+            return page;
+        }
+
+        if (kind === "sitemap") {
+            const outcome = await new SitemapParser().parse(url, tool, since);
+            return { ...outcome, nextPageUrl: null };
+        }
+
+        return parseFailure(
+            new Error(
+                `Unsupported content: ${kind} (${result.contentType || "no content type"})`
+            ),
+            result
+        );
+    }
+
+    /**
+     * Parse a discovered feed and remember it for the next run
+     * Returns null if the feed yields nothing, so scraping continues
+     */
+    private async parseDiscoveredFeed(
+        feedUrl: string,
+        tool: Tool,
+        since: Date
+    ): Promise<ParsedPage | null> {
+        console.log(`[HtmlBlogParser] Discovered feed: ${feedUrl}`);
+
+        const feedPage = await new RssParser().parsePage(feedUrl, tool, since);
+        feedPage.diagnostics.strategy = `discovered feed (${feedPage.diagnostics.strategy ?? "unknown"})`;
+        if (feedPage.items.length === 0) {
+            console.log(
+                "[HtmlBlogParser] Discovered feed returned no items, scraping page"
+            );
+            return null;
+        }
+
+        if (tool.id && tool.feed_url !== feedUrl) {
+            try {
+                await updateToolFeedUrl(tool.id, feedUrl);
+            } catch (error) {
+                // Not fatal - we'll rediscover it next time
+                console.error(
+                    `[HtmlBlogParser] Could not save feed_url:`,
+                    error instanceof Error ? error.message : error
+                );
+            }
         }
+
+        return feedPage;
     }
 
     private getArticleSelectors(): ArticleSelector[] {
@@ -139,12 +369,17 @@ export class HtmlBlogParser implements NewsParser {
         article: cheerio.Cheerio<Element>,
         selector: ArticleSelector,
         baseUrl: string,
-        since: Date
+        since: Date,
+        dateOptions: DateParseOptions,
+        diagnostics: ParseDiagnostics
     ): ParsedNewsItem | null {
         // Extract title
         const titleEl = article.find(selector.title).first();
         const title = cleanText(titleEl.text());
-        if (!title || title.length < 5) return null;
+        if (!title || title.length < 5) {
+            countSkip(diagnostics, "missing_title");
+            return null;
+        }
 
         // Extract link
         let link = "";
@@ -162,27 +397,34 @@ export class HtmlBlogParser implements NewsParser {
                 link = parentLink.attr("href") || "";
             }
         }
-        if (!link) return null;
+        if (!link) {
+            countSkip(diagnostics, "missing_link");
+            return null;
+        }
 
         // Normalize URL
         link = normalizeUrl(link, baseUrl);
 
         // Skip non-article links
-        if (this.isSkipLink(link)) return null;
+        if (this.isSkipLink(link)) {
+            countSkip(diagnostics, "filtered_link");
+            return null;
+        }
 
-        // Extract date
-        let publishedAt: Date | null = null;
+        // Extract date, falling back to one in the article URL
         const dateEl = article.find(selector.date).first();
-        if (dateEl.length) {
-            const datetime =
-                dateEl.attr("datetime") ||
-                dateEl.attr("data-date") ||
-                dateEl.text();
-            publishedAt = parseDate(datetime);
-        }
+        const datetime = dateEl.length
+            ? dateEl.attr("datetime") ||
+              dateEl.attr("data-date") ||
+              dateEl.text()
+            : "";
+        const extracted =
+            extractDate(datetime, dateOptions) ?? extractDateFromUrl(link);
+        const publishedAt = extracted?.date ?? null;
 
         // Check date filter
         if (!isAfterDate(publishedAt, since)) {
+            countSkip(diagnostics, "older_than_since");
             return null;
         }
 
@@ -194,6 +436,7 @@ export class HtmlBlogParser implements NewsParser {
             title,
             url: link,
             publishedAt,
+            dateConfidence: extracted?.confidence,
             rawContent,
             snippet: createSnippet(rawContent),
         };
@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { config } from "../../config/env.js";
+import {
+    getHttpCacheEntry,
+    saveHttpCacheEntry,
+} from "../../db/queries/httpCache.js";
+import type { HttpCacheEntryInput } from "../../db/types.js";
+import type { Fetcher, FetchResult } from "./types.js";
+
+/**
+ * Result of a conditional fetch of a news page
+ */
+export interface ConditionalFetchResult {
+    result: FetchResult;
+    /** Same page as on the last processed fetch (304 or identical body) */
+    unchanged: boolean;
+    /** Validators of this response - save with commitHttpCache once the page is processed */
+    entry: HttpCacheEntryInput | null;
+}
+
+/**
+ * Pages already downloaded for the next fetch of the same URL,
+ * keyed by backend and URL (see withPrefetched)
+ */
+const prefetched = new Map<string, FetchResult>();
+
+/**
+ * Fetch a news page with If-None-Match / If-Modified-Since from http_cache
+ * A 304 or a body with the same hash as last time means unchanged; servers
+ * without validators are covered by the hash. The cache is not used in
+ * FETCH_MODE=record/replay (a recorded 304 would replace the real
+ * snapshot) or with HTTP_CACHE_ENABLED=false
+ * Entries are kept per tool: tools sharing a news URL each compare against
+ * the fetch they processed themselves
+ */
+export async function fetchIfChanged(
+    url: string,
+    toolId: string,
+    fetcher: Fetcher
+): Promise<ConditionalFetchResult> {
+    if (!config.httpCacheEnabled || config.fetchMode !== "live") {
+        return {
+            result: await fetcher.fetch(url),
+            unchanged: false,
+            entry: null,
+        };
+    }
+
+    let cached: HttpCacheEntryInput | null = null;
+    try {
+        cached = await getHttpCacheEntry(toolId, url);
+    } catch (error) {
+        console.warn(
+            `[httpCache] Cache lookup failed for ${url}, fetching in full:`,
+            error instanceof Error ? error.message : error
+        );
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.last_modified) {
+        headers["If-Modified-Since"] = cached.last_modified;
+    }
+
+    const result = await fetcher.fetch(url, { headers });
+    if (result.notModified) {
+        return { result, unchanged: true, entry: null };
+    }
+    if (!result.ok) {
+        return { result, unchanged: false, entry: null };
+    }
+
+    const contentHash = createHash("sha256").update(result.text).digest("hex");
+    return {
+        result,
+        unchanged: cached?.content_hash === contentHash,
+        entry: {
+            tool_id: toolId,
+            url,
+            etag: result.headers?.["etag"] ?? null,
+            last_modified: result.headers?.["last-modified"] ?? null,
+            content_hash: contentHash,
+        },
+    };
+}
+
+/**
+ * Save the validators of a processed page
+ * Failures are logged only - the next run simply fetches the page in full
+ */
+export async function commitHttpCache(
+    entry: HttpCacheEntryInput
+): Promise<void> {
+    try {
+        await saveHttpCacheEntry(entry);
+    } catch (error) {
+        console.warn(
+            `[httpCache] Failed to save validators for ${entry.url}:`,
+            error instanceof Error ? error.message : error
+        );
+    }
+}
+
+/**
+ * Run a task with a page that was already downloaded: the first fetch of
+ * the URL through the same backend returns it instead of downloading again
+ */
+export async function withPrefetched<T>(
+    backend: string,
+    url: string,
+    result: FetchResult,
+    task: () => Promise<T>
+): Promise<T> {
+    const key = `${backend} ${url}`;
+    prefetched.set(key, result);
+    try {
+        return await task();
+    } finally {
+        prefetched.delete(key);
+    }
+}
+
+/**
+ * Take the prefetched page for a URL, if any (used once)
+ */
+export function takePrefetched(
+    backend: string,
+    url: string
+): FetchResult | undefined {
+    const key = `${backend} ${url}`;
+    const result = prefetched.get(key);
+    prefetched.delete(key);
+    return result;
+}
@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { config } from "../../config/env.js";
+import type { FetchResult } from "./types.js";
+import { sniffContent } from "./responseDecoder.js";
+
+/**
+ * HTTP response snapshot stored on disk by FETCH_MODE=record
+ */
+export interface RecordedResponse {
+    url: string;
+    /** HTTP status, 0 when the request failed without a response */
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    /** Network error message (timeout, DNS...) when status is 0 */
+    error?: string;
+    recordedAt: string;
+}
+
+/**
+ * Fixture file for a URL: <FETCH_FIXTURES_DIR>/<host>/<sha1(url)>.json
+ * The host directory keeps snapshots of one site together for easy cleanup.
+ * Non-HTTP fetch backends get their own file (<sha1(url)>.<backend>.json)
+ */
+export function fixturePath(url: string, backend: string = "http"): string {
+    let host = "unknown-host";
+    try {
+        host = new URL(url).hostname;
+    } catch {
+        // Keep the fallback directory for malformed URLs
+    }
+
+    const key = createHash("sha1").update(url).digest("hex").substring(0, 20);
+    const suffix = backend === "http" ? "" : `.${backend}`;
+    return path.resolve(config.fetchFixturesDir, host, `${key}${suffix}.json`);
+}
+
+/**
+ * Save a response snapshot, overwriting an older one for the same URL
+ */
+export async function saveFixture(
+    response: Omit<RecordedResponse, "recordedAt">,
+    backend: string = "http"
+): Promise<void> {
+    const file = fixturePath(response.url, backend);
+    const fixture: RecordedResponse = {
+        ...response,
+        recordedAt: new Date().toISOString(),
+    };
+
+    try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, JSON.stringify(fixture, null, 2), "utf-8");
+        console.log(`[httpFixtures] Recorded ${response.url}`);
+    } catch (error) {
+        // Recording must never break a live run
+        console.error(
+            `[httpFixtures] Failed to record ${response.url}:`,
+            error instanceof Error ? error.message : error
+        );
+    }
+}
+
+/**
+ * Load the recorded response for a URL, or null if none was recorded
+ */
+export async function loadFixture(
+    url: string,
+    backend: string = "http"
+): Promise<RecordedResponse | null> {
+    try {
+        const text = await readFile(fixturePath(url, backend), "utf-8");
+        return JSON.parse(text) as RecordedResponse;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Serve a recorded response (FETCH_MODE=replay) as a fetch result
+ */
+export async function replayFixture(
+    url: string,
+    backend: string = "http"
+): Promise<FetchResult> {
+    const fixture = await loadFixture(url, backend);
+    if (!fixture) {
+        return {
+            ok: false,
+            contentType: "",
+            text: "",
+            error: `No recorded response for ${url} (FETCH_MODE=replay)`,
+        };
+    }
+
+    if (fixture.status === 0) {
+        return {
+            ok: false,
+            contentType: "",
+            text: "",
+            error: fixture.error ?? "Network error",
+        };
+    }
+
+    if (fixture.status < 200 || fixture.status >= 300) {
+        return {
+            ok: false,
+            contentType: "",
+            text: "",
+            error: `HTTP ${fixture.status}: ${fixture.statusText}`,
+            status: fixture.status,
+        };
+    }
+
+    return {
+        ok: true,
+        contentType: fixture.headers["content-type"] ?? "",
+        text: fixture.body,
+        status: fixture.status,
+        fetchedAt: new Date(fixture.recordedAt),
+        headers: fixture.headers,
+        kind: sniffContent(fixture.headers["content-type"] ?? "", fixture.body),
+    };
+}
@@ -4,88 +4,131 @@
  * This module provides parsers for fetching news from various AI tool websites.
  * It includes:
  * - RSS/Atom feed parser
+ * - Sitemap parser (sitemap.xml with <lastmod>)
+ * - GitHub releases parser (github.com/<owner>/<repo>/releases)
+ * - Changelog parser (one entry per version/date heading)
+ * - Embedded data parser for SPA blogs (JSON-LD, __NEXT_DATA__, Nuxt)
  * - Generic HTML blog parser
- * - Custom parsers for specific sites (OpenAI, Anthropic, Google, etc.)
+ * - Configurable HTML parser driven by selector specs
+ *   (built-in site configs and per-tool tools.parser_config)
  */
 
 export * from "./types.js";
 export * from "./utils.js";
+export { HttpFetcher, BrowserFetcher, getFetcher } from "./fetchers.js";
+export { describeDiagnostics, classifyFetchFailure } from "./diagnostics.js";
 export { RssParser } from "./rssParser.js";
 export { HtmlBlogParser } from "./htmlBlogParser.js";
+export { SitemapParser } from "./sitemapParser.js";
+export { GitHubReleasesParser } from "./githubReleasesParser.js";
+export { ChangelogParser } from "./changelogParser.js";
+export { EmbeddedDataParser } from "./embeddedDataParser.js";
+export { ConfigurableHtmlParser } from "./configurableHtmlParser.js";
 export {
-    OpenAIParser,
-    AnthropicParser,
-    GoogleBlogParser,
-    MicrosoftBlogParser,
-    HuggingFaceParser,
-    CursorParser,
-    ReplitParser,
-    ElevenLabsParser,
-    N8nParser,
-    SunoParser,
-    RunwayParser,
-    PerplexityParser,
-    XAIParser,
-    DeepLParser,
+    SITE_PARSER_CONFIGS,
+    getSiteParsers,
+    type SiteParserConfig,
 } from "./customParsers.js";
 
-import type { NewsParser } from "./types.js";
+import type { NewsParser, ParseDiagnostics } from "./types.js";
+import type { Tool } from "../../db/types.js";
+import { updateToolFeedUrl } from "../../db/queries/tools.js";
 import { RssParser } from "./rssParser.js";
 import { HtmlBlogParser } from "./htmlBlogParser.js";
-import {
-    OpenAIParser,
-    AnthropicParser,
-    GoogleBlogParser,
-    MicrosoftBlogParser,
-    HuggingFaceParser,
-    CursorParser,
-    ReplitParser,
-    ElevenLabsParser,
-    N8nParser,
-    SunoParser,
-    RunwayParser,
-    PerplexityParser,
-    XAIParser,
-    DeepLParser,
-} from "./customParsers.js";
+import { SitemapParser } from "./sitemapParser.js";
+import { GitHubReleasesParser } from "./githubReleasesParser.js";
+import { ChangelogParser } from "./changelogParser.js";
+import { EmbeddedDataParser } from "./embeddedDataParser.js";
+import { ConfigurableHtmlParser } from "./configurableHtmlParser.js";
+import { getSiteParsers } from "./customParsers.js";
+
+/**
+ * Content-based fallback parsers - they accept any URL, so they are
+ * never picked by URL matching
+ */
+const FALLBACK_PARSERS = ["Embedded Data Parser", "HTML Blog Parser"];
 
 /**
  * Get all available parsers in priority order
- * Custom parsers are checked first, then RSS, then generic HTML
+ * Site-specific parsers are checked first, then RSS, then the fallbacks
  */
 export function getAllParsers(): NewsParser[] {
     return [
-        // Custom parsers for known sites (highest priority)
-        new OpenAIParser(),
-        new AnthropicParser(),
-        new GoogleBlogParser(),
-        new MicrosoftBlogParser(),
-        new HuggingFaceParser(),
-        new CursorParser(),
-        new ReplitParser(),
-        new ElevenLabsParser(),
-        new N8nParser(),
-        new SunoParser(),
-        new RunwayParser(),
-        new PerplexityParser(),
-        new XAIParser(),
-        new DeepLParser(),
+        // Built-in site configs (highest priority)
+        ...getSiteParsers(),
+        // GitHub releases for open-source tools
+        new GitHubReleasesParser(),
+        // Sitemap parser (must precede RSS, which also matches .xml)
+        new SitemapParser(),
         // RSS parser for feed URLs
         new RssParser(),
+        // Changelog pages (after RSS - changelog feeds are parsed as feeds)
+        new ChangelogParser(),
+        // Embedded JSON data (SPA blogs), falls back to generic scraping
+        new EmbeddedDataParser(),
         // Generic HTML parser as fallback
         new HtmlBlogParser(),
     ];
 }
 
+/**
+ * Get the URL to parse for a tool
+ * A feed discovered on the news page wins over the page itself
+ */
+export function resolveNewsUrl(tool: Tool): string | null {
+    return tool.feed_url || tool.news_url;
+}
+
+/**
+ * Forget a discovered feed that failed, so the tool is parsed from
+ * news_url again (which rediscovers the feed if the page still has one)
+ *
+ * @returns The tool to retry with, or null if it has no feed to drop
+ */
+export async function dropFailedFeed(
+    tool: Tool,
+    diagnostics: ParseDiagnostics
+): Promise<Tool | null> {
+    if (!tool.feed_url || !tool.news_url || diagnostics.status === "ok") {
+        return null;
+    }
+
+    console.warn(
+        `[parsers] Feed ${tool.feed_url} of ${tool.name} failed (${diagnostics.status}), falling back to ${tool.news_url}`
+    );
+    try {
+        await updateToolFeedUrl(tool.id, null);
+    } catch (error) {
+        // Not fatal - this run still uses news_url
+        console.error(
+            `[parsers] Could not clear feed_url:`,
+            error instanceof Error ? error.message : error
+        );
+    }
+    return { ...tool, feed_url: null };
+}
+
 /**
  * Find the best parser for a given URL
+ * A selector spec stored in tools.parser_config takes precedence over everything,
+ * then an explicit changelog config
  */
-export function findParser(url: string): NewsParser {
+export function findParser(url: string, tool?: Tool): NewsParser {
+    if (tool?.parser_config?.selectors) {
+        return new ConfigurableHtmlParser(tool.parser_config.selectors, {
+            name: `Configurable HTML Parser (${tool.id})`,
+        });
+    }
+
+    if (tool?.parser_config?.changelog) {
+        return new ChangelogParser();
+    }
+
     const parsers = getAllParsers();
 
     // First, try custom parsers that explicitly match
     for (const parser of parsers) {
-        if (parser.name !== "HTML Blog Parser" && parser.canParse(url)) {
+        if (!FALLBACK_PARSERS.includes(parser.name) && parser.canParse(url)) {
             return parser;
         }
     }
@@ -96,6 +139,6 @@ export function findParser(url: string): NewsParser {
         return rssParser;
     }
 
-    // Fallback to HTML parser
-    return parsers.find((p) => p.name === "HTML Blog Parser")!;
+    // Fallback: embedded data first, it hands over to the HTML parser itself
+    return parsers.find((p) => p.name === "Embedded Data Parser")!;
 }
@@ -0,0 +1,173 @@
+import { config } from "../../config/env.js";
+
+/**
+ * First retry waits about this long, every next one twice as long
+ */
+const BACKOFF_BASE_MS = 1000;
+
+/**
+ * Upper bound for a single backoff wait
+ */
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Longest Retry-After we are willing to wait for; longer ones end the retries
+ */
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+interface HostState {
+    /** A request to this host is in flight */
+    busy: boolean;
+    /** Earliest moment the next request may start (interval, Retry-After, backoff) */
+    nextAt: number;
+}
+
+interface PendingRequest {
+    host: string;
+    start: () => void;
+}
+
+/**
+ * Request queue of the fetch layer
+ * Runs one request per host at a time, spaces requests to the same host by
+ * minIntervalMs and keeps at most maxConcurrency requests in flight overall,
+ * so different hosts are fetched in parallel without hammering any one of them.
+ * Requests start in the order they were scheduled, unless their host is waiting
+ */
+export class RequestScheduler {
+    private pending: PendingRequest[] = [];
+    private hosts = new Map<string, HostState>();
+    private active = 0;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private maxConcurrency: number,
+        private minIntervalMs: number
+    ) {}
+
+    /**
+     * Run a request to the given URL once its host and a global slot are free
+     */
+    schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+        const host = hostOf(url);
+
+        return new Promise<T>((resolve, reject) => {
+            this.pending.push({
+                host,
+                start: () => {
+                    task()
+                        .then(resolve, reject)
+                        .finally(() => this.release(host));
+                },
+            });
+            this.pump();
+        });
+    }
+
+    /**
+     * Hold back further requests to the URL's host (Retry-After, backoff)
+     */
+    delayHost(url: string, ms: number): void {
+        const state = this.hostState(hostOf(url));
+        state.nextAt = Math.max(state.nextAt, Date.now() + ms);
+    }
+
+    private hostState(host: string): HostState {
+        let state = this.hosts.get(host);
+        if (!state) {
+            state = { busy: false, nextAt: 0 };
+            this.hosts.set(host, state);
+        }
+        return state;
+    }
+
+    private release(host: string): void {
+        const state = this.hostState(host);
+        state.busy = false;
+        state.nextAt = Math.max(state.nextAt, Date.now() + this.minIntervalMs);
+        this.active--;
+        this.pump();
+    }
+
+    /**
+     * Start every pending request that may run now and wake up
+     * when the earliest waiting host becomes available
+     */
+    private pump(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const now = Date.now();
+        let wakeAt = Infinity;
+
+        for (
+            let i = 0;
+            i < this.pending.length && this.active < this.maxConcurrency;
+
+        ) {
+            const request = this.pending[i];
+            const state = this.hostState(request.host);
+
+            if (state.busy) {
+                i++;
+            } else if (state.nextAt > now) {
+                wakeAt = Math.min(wakeAt, state.nextAt);
+                i++;
+            } else {
+                this.pending.splice(i, 1);
+                state.busy = true;
+                this.active++;
+                request.start();
+            }
+        }
+
+        if (this.pending.length > 0 && wakeAt !== Infinity) {
+            this.timer = setTimeout(() => this.pump(), wakeAt - now);
+        }
+    }
+}
+
+function hostOf(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Wait before retry number `attempt` (1-based): exponential with jitter,
+ * half of the step is fixed and half random (~1s, ~2s, ~4s... capped at 30s)
+ */
+export function backoffDelay(attempt: number): number {
+    const step = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+    return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+    value: string | null,
+    now: number = Date.now()
+): number | null {
+    if (!value) return null;
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * Shared scheduler for all HTTP requests of the process
+ */
+export const requestScheduler = new RequestScheduler(
+    config.fetchMaxConcurrency,
+    config.fetchHostIntervalMs
+);
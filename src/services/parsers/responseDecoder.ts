@@ -0,0 +1,152 @@
+import type { ContentKind } from "./types.js";
+
+/**
+ * How much of the body is searched for <meta charset> / <?xml encoding?>
+ */
+const CHARSET_SNIFF_BYTES = 4096;
+
+/**
+ * How much of the text is looked at to tell the content kind
+ */
+const KIND_SNIFF_CHARS = 2048;
+
+/**
+ * Content types that are never text
+ */
+const BINARY_TYPES = [
+    /^image\//,
+    /^audio\//,
+    /^video\//,
+    /^font\//,
+    /^application\/(pdf|zip|gzip|octet-stream|x-[\w-]*compressed)/,
+];
+
+/**
+ * Read a response body, cancelling the download once it exceeds maxBytes
+ * Returns null when the body is too large (declared or actual size)
+ */
+export async function readBody(
+    response: Response,
+    maxBytes: number
+): Promise<Uint8Array | null> {
+    const declared = parseInt(response.headers.get("content-length") ?? "", 10);
+    if (declared > maxBytes) {
+        await response.body?.cancel();
+        return null;
+    }
+    if (!response.body) return new Uint8Array(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return body;
+}
+
+/**
+ * Character encoding of a body, in order of precedence:
+ * byte order mark, Content-Type charset, <meta charset> or
+ * <meta http-equiv="Content-Type">, <?xml encoding?>; UTF-8 otherwise
+ */
+export function detectCharset(bytes: Uint8Array, contentType: string): string {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return "utf-8";
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+    const header = /charset=["']?([\w.:-]+)/i.exec(contentType);
+    if (header) return header[1].toLowerCase();
+
+    // Declarations are ASCII in every encoding we can meet here
+    const head = Buffer.from(bytes.subarray(0, CHARSET_SNIFF_BYTES)).toString(
+        "latin1"
+    );
+    const declared =
+        /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head) ??
+        /<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)["']/i.exec(head);
+    return declared ? declared[1].toLowerCase() : "utf-8";
+}
+
+/**
+ * Decode a body in the detected charset
+ * Labels TextDecoder does not know fall back to UTF-8
+ */
+export function decodeBody(
+    bytes: Uint8Array,
+    contentType: string
+): { text: string; charset: string } {
+    const charset = detectCharset(bytes, contentType);
+    try {
+        return { text: new TextDecoder(charset).decode(bytes), charset };
+    } catch {
+        console.warn(
+            `[responseDecoder] Unknown charset "${charset}", decoding as UTF-8`
+        );
+        return {
+            text: new TextDecoder("utf-8").decode(bytes),
+            charset: "utf-8",
+        };
+    }
+}
+
+/**
+ * Tell what a response contains from its content type and first characters
+ * The body wins over the header - servers often send feeds as text/html
+ * and HTML as text/xml
+ */
+export function sniffContent(contentType: string, text: string): ContentKind {
+    const type = contentType.toLowerCase();
+    const head = text.slice(0, KIND_SNIFF_CHARS);
+
+    if (BINARY_TYPES.some((pattern) => pattern.test(type))) return "binary";
+    if (head.includes("\u0000")) return "binary";
+
+    const start = head.replace(/^\uFEFF/, "").trimStart();
+
+    if (start.startsWith("{") || start.startsWith("[")) {
+        return /jsonfeed\.org\/version/i.test(head) ? "feed" : "json";
+    }
+
+    if (start.startsWith("<")) {
+        // First element after the XML declaration, comments and doctype
+        const root =
+            /^(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!doctype[^>]*>|\s)*<([a-z][\w:.-]*)/i
+                .exec(start)?.[1]
+                .toLowerCase();
+
+        if (root === "rss" || root === "feed" || root === "rdf:rdf") {
+            return "feed";
+        }
+        if (root === "urlset" || root === "sitemapindex") return "sitemap";
+        if (root === "html" || root === "head" || root === "body") {
+            return "html";
+        }
+        if (/^<!doctype html/i.test(start) || type.includes("html")) {
+            return "html";
+        }
+        return start.startsWith("<?xml") ? "xml" : "html";
+    }
+
+    if (type.includes("html")) return "html";
+    if (type.includes("json")) return "json";
+    if (type.includes("xml")) return "xml";
+    return "text";
+}
@@ -1,20 +1,47 @@
 import { XMLParser } from "fast-xml-parser";
-import type { NewsParser } from "./types.js";
-import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import type {
+    NewsParser,
+    ParseDiagnostics,
+    ParseOutcome,
+    ParsedPage,
+} from "./types.js";
+import type { FetchBackend, ParsedNewsItem, Tool } from "../../db/types.js";
 import {
     fetchUrl,
     parseDate,
     cleanText,
     createSnippet,
+    normalizeUrl,
     isAfterDate,
 } from "./utils.js";
+import {
+    countSkip,
+    createDiagnostics,
+    fetchFailure,
+    parseFailure,
+    recordFetch,
+} from "./diagnostics.js";
+import { toolProxyRule } from "./proxyPool.js";
+
+/**
+ * Upper bound for tags taken from feed categories
+ */
+const MAX_TAGS = 10;
 
 /**
- * RSS/Atom feed parser
- * Handles both RSS 2.0 and Atom feed formats
+ * Strip HTML tags from a fragment
+ */
+function stripHtml(html: string): string {
+    return html.replace(/<[^>]+>/g, " ");
+}
+
+/**
+ * RSS/Atom/JSON Feed parser
+ * Handles RSS 2.0, Atom and JSON Feed 1.x formats
  */
 export class RssParser implements NewsParser {
     name = "RSS/Atom Parser";
+    fetchBackend: FetchBackend = "http";
 
     private xmlParser = new XMLParser({
         ignoreAttributes: false,
@@ -31,53 +58,113 @@ export class RssParser implements NewsParser {
             /\/atom\/?$/i,
             /feed\.xml/i,
             /rss\.xml/i,
+            /feed\.json$/i,
+            /\/feed\/json\/?$/i,
         ];
         return rssPatterns.some((pattern) => pattern.test(url));
     }
 
-    async parse(
-        url: string,
-        tool: Tool,
-        since: Date
-    ): Promise<ParsedNewsItem[]> {
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        const { items, diagnostics } = await this.parsePage(url, tool, since);
+        return { items, diagnostics };
+    }
+
+    /**
+     * Parse a feed page; paged feeds (RFC 5005, JSON Feed next_url)
+     * link to older entries
+     */
+    async parsePage(url: string, tool: Tool, since: Date): Promise<ParsedPage> {
         console.log(`[RssParser] Fetching feed: ${url}`);
 
-        const result = await fetchUrl(url);
+        const result = await fetchUrl(url, { proxy: toolProxyRule(tool) });
         if (!result.ok) {
             console.error(`[RssParser] Failed to fetch: ${result.error}`);
-            return [];
+            return fetchFailure(result);
         }
 
+        const page = this.parseFeed(
+            result.text,
+            result.contentType,
+            tool,
+            since,
+            url
+        );
+        recordFetch(page.diagnostics, result);
+        return page;
+    }
+
+    /**
+     * Parse an already fetched feed document (RSS 2.0, Atom or JSON Feed)
+     */
+    parseFeed(
+        text: string,
+        contentType: string,
+        tool: Tool,
+        since: Date,
+        url: string
+    ): ParsedPage {
         try {
-            const parsed = this.xmlParser.parse(result.text);
+            // JSON Feed
+            if (
+                contentType.includes("json") ||
+                text.trimStart().startsWith("{")
+            ) {
+                const feed = JSON.parse(text) as JsonFeed;
+                const diagnostics = createDiagnostics(null, "jsonfeed");
+                return {
+                    items: this.parseJsonFeed(feed, since, url, diagnostics),
+                    nextPageUrl: feed.next_url
+                        ? normalizeUrl(feed.next_url, url)
+                        : null,
+                    diagnostics,
+                };
+            }
+
+            const parsed = this.xmlParser.parse(text);
 
             // Try RSS 2.0 format first
-            if (parsed.rss?.channel?.item) {
-                return this.parseRss2(parsed.rss.channel, tool, since, url);
+            if (parsed.rss?.channel) {
+                const diagnostics = createDiagnostics(null, "rss2");
+                return {
+                    items: this.parseRss2(
+                        parsed.rss.channel,
+                        since,
+                        url,
+                        diagnostics
+                    ),
+                    nextPageUrl: findNextLink(
+                        parsed.rss.channel["atom:link"],
+                        url
+                    ),
+                    diagnostics,
+                };
             }
 
             // Try Atom format
-            if (parsed.feed?.entry) {
-                return this.parseAtom(parsed.feed, tool, since, url);
+            if (parsed.feed) {
+                const diagnostics = createDiagnostics(null, "atom");
+                return {
+                    items: this.parseAtom(parsed.feed, since, url, diagnostics),
+                    nextPageUrl: findNextLink(parsed.feed.link, url),
+                    diagnostics,
+                };
             }
 
             console.log("[RssParser] Unknown feed format");
-            return [];
+            return parseFailure(new Error("Unknown feed format"));
         } catch (error) {
             console.error(`[RssParser] Parse error:`, error);
-            return [];
+            return parseFailure(error);
         }
     }
 
     private parseRss2(
         channel: RssChannel,
-        tool: Tool,
         since: Date,
-        baseUrl: string
+        baseUrl: string,
+        diagnostics: ParseDiagnostics
     ): ParsedNewsItem[] {
-        const items = Array.isArray(channel.item)
-            ? channel.item
-            : [channel.item];
+        const items = toArray(channel.item);
         const news: ParsedNewsItem[] = [];
 
         for (const item of items) {
@@ -86,15 +173,17 @@ export class RssParser implements NewsParser {
             const publishedAt = parseDate(item.pubDate || item.date || "");
 
             if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
                 continue;
             }
 
-            const title = cleanText(item.title || "");
-            const link = item.link || "";
-            const content = item.description || item["content:encoded"] || "";
-            const rawContent = cleanText(
-                typeof content === "string" ? content : ""
-            );
+            const title = cleanText(textOf(item.title));
+            const link = textOf(item.link);
+            // Full text from content:encoded, summary from description
+            const description = cleanText(stripHtml(textOf(item.description)));
+            const rawContent =
+                cleanText(stripHtml(textOf(item["content:encoded"]))) ||
+                description;
 
             if (title && link) {
                 news.push({
@@ -102,8 +191,24 @@ export class RssParser implements NewsParser {
                     url: link,
                     publishedAt,
                     rawContent,
-                    snippet: createSnippet(rawContent),
+                    snippet: createSnippet(description || rawContent),
+                    externalId: textOf(item.guid).trim() || undefined,
+                    author:
+                        cleanText(
+                            textOf(item["dc:creator"]) || textOf(item.author)
+                        ) || undefined,
+                    imageUrl: rssImage(item, baseUrl),
+                    tags: categoryTags(
+                        toArray(item.category).map((category) =>
+                            textOf(category)
+                        )
+                    ),
                 });
+            } else {
+                countSkip(
+                    diagnostics,
+                    title ? "missing_link" : "missing_title"
+                );
             }
         }
 
@@ -113,6 +218,71 @@ export class RssParser implements NewsParser {
         return news;
     }
 
+    private parseJsonFeed(
+        feed: JsonFeed,
+        since: Date,
+        baseUrl: string,
+        diagnostics: ParseDiagnostics
+    ): ParsedNewsItem[] {
+        if (!feed.version?.includes("jsonfeed.org") || !feed.items) {
+            console.log("[RssParser] Unknown JSON feed format");
+            diagnostics.status = "parse_error";
+            diagnostics.message = "Unknown JSON feed format";
+            return [];
+        }
+
+        const news: ParsedNewsItem[] = [];
+
+        for (const item of feed.items) {
+            const publishedAt = parseDate(
+                item.date_published || item.date_modified || ""
+            );
+
+            if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
+                continue;
+            }
+
+            const link = item.url || item.external_url || "";
+            const rawContent = cleanText(
+                item.content_text ||
+                    stripHtml(item.content_html || "") ||
+                    item.summary ||
+                    ""
+            );
+            // Titles are optional in JSON Feed (microblog posts)
+            const title =
+                cleanText(item.title || "") ||
+                createSnippet(item.summary || rawContent, 100);
+            const image = item.image || item.banner_image;
+
+            if (title && link) {
+                news.push({
+                    title,
+                    url: normalizeUrl(link, baseUrl),
+                    publishedAt,
+                    rawContent,
+                    snippet: createSnippet(item.summary || rawContent),
+                    externalId: item.id ? String(item.id) : undefined,
+                    author:
+                        cleanText(
+                            item.authors?.[0]?.name ?? item.author?.name ?? ""
+                        ) || undefined,
+                    imageUrl: image ? normalizeUrl(image, baseUrl) : undefined,
+                    tags: categoryTags(item.tags ?? []),
+                });
+            } else {
+                countSkip(
+                    diagnostics,
+                    title ? "missing_link" : "missing_title"
+                );
+            }
+        }
+
+        console.log(`[RssParser] Parsed ${news.length} items from JSON Feed`);
+        return news;
+    }
+
     /**
      * Extract text content from string or object with #text property
      */
@@ -128,11 +298,11 @@ export class RssParser implements NewsParser {
 
     private parseAtom(
         feed: AtomFeed,
-        tool: Tool,
         since: Date,
-        baseUrl: string
+        baseUrl: string,
+        diagnostics: ParseDiagnostics
     ): ParsedNewsItem[] {
-        const entries = Array.isArray(feed.entry) ? feed.entry : [feed.entry];
+        const entries = toArray(feed.entry);
         const news: ParsedNewsItem[] = [];
 
         for (const entry of entries) {
@@ -143,6 +313,7 @@ export class RssParser implements NewsParser {
             );
 
             if (!isAfterDate(publishedAt, since)) {
+                countSkip(diagnostics, "older_than_since");
                 continue;
             }
 
@@ -171,6 +342,9 @@ export class RssParser implements NewsParser {
                 this.extractTextContent(entry.content) ||
                 this.extractTextContent(entry.summary) ||
                 "";
+            const summary = cleanText(
+                stripHtml(this.extractTextContent(entry.summary))
+            );
             const rawContent = cleanText(content);
 
             if (title && link) {
@@ -179,8 +353,27 @@ export class RssParser implements NewsParser {
                     url: link,
                     publishedAt,
                     rawContent,
-                    snippet: createSnippet(rawContent),
+                    snippet: createSnippet(summary || rawContent),
+                    externalId: textOf(entry.id).trim() || undefined,
+                    author:
+                        cleanText(
+                            toArray(entry.author)
+                                .map((author) => textOf(author.name))
+                                .find(Boolean) ?? ""
+                        ) || undefined,
+                    imageUrl: atomImage(entry, baseUrl),
+                    tags: categoryTags(
+                        toArray(entry.category).map(
+                            (category) =>
+                                category["@_label"] || category["@_term"] || ""
+                        )
+                    ),
                 });
+            } else {
+                countSkip(
+                    diagnostics,
+                    title ? "missing_link" : "missing_title"
+                );
             }
         }
 
@@ -189,9 +382,97 @@ export class RssParser implements NewsParser {
     }
 }
 
+/**
+ * Find <link rel="next"> (RFC 5005 paged feeds) among feed-level links
+ */
+function findNextLink(
+    links: AtomLink | AtomLink[] | string | undefined,
+    baseUrl: string
+): string | null {
+    if (!links || typeof links === "string") return null;
+
+    const next = (Array.isArray(links) ? links : [links]).find(
+        (link) => link["@_rel"] === "next" && link["@_href"]
+    );
+    return next?.["@_href"] ? normalizeUrl(next["@_href"], baseUrl) : null;
+}
+
+/**
+ * Text of a feed value - plain, numeric (the XML parser turns "12345"
+ * into a number) or an element with attributes ({ "#text": ... })
+ */
+function textOf(value: unknown): string {
+    if (typeof value === "string") return value;
+    if (typeof value === "number") return String(value);
+    if (value && typeof value === "object" && "#text" in value) {
+        return textOf((value as { "#text": unknown })["#text"]);
+    }
+    return "";
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Feed categories as lowercase tags, without duplicates
+ */
+function categoryTags(categories: string[]): string[] | undefined {
+    const tags = [
+        ...new Set(
+            categories
+                .map((category) => cleanText(category).toLowerCase())
+                .filter(Boolean)
+        ),
+    ].slice(0, MAX_TAGS);
+    return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Image of an RSS item: media:thumbnail, image media:content or an image enclosure
+ */
+function rssImage(item: RssItem, baseUrl: string): string | undefined {
+    const candidates = [
+        ...toArray(item["media:thumbnail"]),
+        ...toArray(item["media:content"]).filter(isImageMedia),
+        ...toArray(item["media:group"]?.["media:content"]).filter(isImageMedia),
+        ...toArray(item.enclosure).filter(isImageMedia),
+    ];
+    const url = candidates.find((media) => media["@_url"])?.["@_url"];
+    return url ? normalizeUrl(url, baseUrl) : undefined;
+}
+
+/**
+ * Image of an Atom entry: media:thumbnail or an image enclosure link
+ */
+function atomImage(entry: AtomEntry, baseUrl: string): string | undefined {
+    const thumbnail = toArray(entry["media:thumbnail"]).find(
+        (media) => media["@_url"]
+    )?.["@_url"];
+    const enclosure = toArray(
+        typeof entry.link === "string" ? undefined : entry.link
+    ).find(
+        (link) =>
+            link["@_rel"] === "enclosure" &&
+            link["@_type"]?.startsWith("image/")
+    )?.["@_href"];
+
+    const url = thumbnail || enclosure;
+    return url ? normalizeUrl(url, baseUrl) : undefined;
+}
+
+function isImageMedia(media: MediaElement): boolean {
+    return (
+        media["@_medium"] === "image" ||
+        (media["@_type"]?.startsWith("image/") ?? false)
+    );
+}
+
 // Type definitions for RSS/Atom feeds
 interface RssChannel {
-    item: RssItem | RssItem[];
+    item?: RssItem | RssItem[];
+    "atom:link"?: AtomLink | AtomLink[];
 }
 
 interface RssItem {
@@ -201,19 +482,73 @@ interface RssItem {
     "content:encoded"?: string;
     pubDate?: string;
     date?: string;
+    guid?: string | number | { "#text": string | number };
+    author?: string;
+    "dc:creator"?: string;
+    category?: RssCategory | RssCategory[];
+    enclosure?: MediaElement | MediaElement[];
+    "media:thumbnail"?: MediaElement | MediaElement[];
+    "media:content"?: MediaElement | MediaElement[];
+    "media:group"?: { "media:content"?: MediaElement | MediaElement[] };
+}
+
+type RssCategory = string | { "#text": string };
+
+interface MediaElement {
+    "@_url"?: string;
+    "@_type"?: string;
+    "@_medium"?: string;
 }
 
 interface AtomFeed {
-    entry: AtomEntry | AtomEntry[];
+    entry?: AtomEntry | AtomEntry[];
+    link?: string | AtomLink | AtomLink[];
 }
 
 interface AtomEntry {
+    id?: string;
     title?: string | { "#text": string };
     link?: string | AtomLink | AtomLink[];
     content?: string | { "#text": string };
     summary?: string | { "#text": string };
     published?: string;
     updated?: string;
+    author?: AtomAuthor | AtomAuthor[];
+    category?: AtomCategory | AtomCategory[];
+    "media:thumbnail"?: MediaElement | MediaElement[];
+}
+
+interface AtomAuthor {
+    name?: string;
+}
+
+interface AtomCategory {
+    "@_term"?: string;
+    "@_label"?: string;
+}
+
+interface JsonFeed {
+    version?: string;
+    items?: JsonFeedItem[];
+    next_url?: string;
+}
+
+interface JsonFeedItem {
+    id?: string;
+    url?: string;
+    external_url?: string;
+    title?: string;
+    content_html?: string;
+    content_text?: string;
+    summary?: string;
+    date_published?: string;
+    date_modified?: string;
+    tags?: string[];
+    image?: string;
+    banner_image?: string;
+    authors?: { name?: string }[];
+    /** JSON Feed 1.0 */
+    author?: { name?: string };
 }
 
 interface AtomLink {
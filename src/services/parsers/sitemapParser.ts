@@ -0,0 +1,297 @@
+import * as cheerio from "cheerio";
+import { XMLParser } from "fast-xml-parser";
+import type {
+    FetchOptions,
+    NewsParser,
+    ParseDiagnostics,
+    ParseOutcome,
+} from "./types.js";
+import type { FetchBackend, ParsedNewsItem, Tool } from "../../db/types.js";
+import {
+    fetchUrl,
+    parseDate,
+    cleanText,
+    isAfterDate,
+    titleFromUrl,
+} from "./utils.js";
+import {
+    classifyFetchFailure,
+    countSkip,
+    createDiagnostics,
+    markFailure,
+    recordFetch,
+} from "./diagnostics.js";
+import { toolProxyRule } from "./proxyPool.js";
+
+/**
+ * Maximum number of child sitemaps to walk from a sitemap index
+ */
+const MAX_CHILD_SITEMAPS = 10;
+
+/**
+ * Maximum sitemap index nesting depth
+ */
+const MAX_DEPTH = 2;
+
+/**
+ * Sitemap parser
+ * Useful for blocked or JS-rendered sites that still publish sitemap.xml:
+ * walks sitemap indexes, keeps URLs matching a per-tool path pattern,
+ * uses <lastmod> as the publish date and the URL slug as the title.
+ * Only items that turn out to be new get their page fetched for the
+ * real title (completeItems); the slug stays when that fetch fails
+ */
+export class SitemapParser implements NewsParser {
+    name = "Sitemap Parser";
+    fetchBackend: FetchBackend = "http";
+
+    private xmlParser = new XMLParser({
+        ignoreAttributes: true,
+        parseTagValue: false,
+    });
+
+    canParse(url: string): boolean {
+        return /sitemap[\w-]*\.xml$/i.test(url);
+    }
+
+    async parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome> {
+        console.log(`[SitemapParser] Fetching sitemap: ${url}`);
+
+        const options = tool.parser_config?.sitemap ?? {};
+        const pathPattern = new RegExp(options.pathPattern ?? "/blog/", "i");
+        const limit = options.limit ?? 20;
+        const diagnostics = createDiagnostics(null, `sitemap ${pathPattern}`);
+        const fetchOptions: FetchOptions = { proxy: toolProxyRule(tool) };
+
+        try {
+            const entries = await this.collectEntries(
+                url,
+                since,
+                0,
+                diagnostics,
+                fetchOptions
+            );
+            if (diagnostics.status !== "ok") {
+                return { items: [], diagnostics };
+            }
+
+            const matching = entries
+                .filter((entry) => {
+                    if (this.matchesPath(entry.loc, pathPattern)) return true;
+                    countSkip(diagnostics, "filtered_link");
+                    return false;
+                })
+                .filter((entry) => {
+                    if (isAfterDate(entry.lastmod, since)) return true;
+                    countSkip(diagnostics, "older_than_since");
+                    return false;
+                })
+                .sort(
+                    (a, b) =>
+                        (b.lastmod?.getTime() ?? 0) -
+                        (a.lastmod?.getTime() ?? 0)
+                )
+                .slice(0, limit);
+
+            console.log(
+                `[SitemapParser] ${matching.length} of ${entries.length} URLs match ${pathPattern}`
+            );
+
+            const news: ParsedNewsItem[] = matching.map((entry) => ({
+                title: titleFromUrl(entry.loc),
+                url: entry.loc,
+                publishedAt: entry.lastmod,
+                rawContent: "",
+                snippet: "",
+            }));
+
+            if (
+                entries.length > 0 &&
+                diagnostics.skipped.filtered_link === entries.length
+            ) {
+                diagnostics.status = "empty_selectors";
+                diagnostics.message = `No sitemap URLs match ${pathPattern}`;
+            }
+
+            console.log(`[SitemapParser] Parsed ${news.length} items`);
+            return { items: news, diagnostics };
+        } catch (error) {
+            console.error(`[SitemapParser] Parse error:`, error);
+            markFailure(diagnostics, "parse_error", error);
+            return { items: [], diagnostics };
+        }
+    }
+
+    /**
+     * Replace slug titles with the page title (og:title, then <title>)
+     * Reads at most `limit` pages, like parse() lists at most `limit` items
+     */
+    async completeItems(items: ParsedNewsItem[], tool: Tool): Promise<void> {
+        const limit = tool.parser_config?.sitemap?.limit ?? 20;
+        const fetchOptions: FetchOptions = { proxy: toolProxyRule(tool) };
+
+        const untitled = items
+            .filter((item) => item.title === titleFromUrl(item.url))
+            .slice(0, limit);
+        for (const item of untitled) {
+            const title = await this.fetchTitle(item.url, fetchOptions);
+            if (title) item.title = title;
+        }
+
+        if (untitled.length > 0) {
+            console.log(
+                `[SitemapParser] Fetched page titles for ${untitled.length} new items`
+            );
+        }
+    }
+
+    /**
+     * Read the page title (og:title, then <title>)
+     * @returns The title, or null if the page could not be read or has none
+     */
+    private async fetchTitle(
+        url: string,
+        fetchOptions: FetchOptions
+    ): Promise<string | null> {
+        try {
+            const result = await fetchUrl(url, fetchOptions);
+            if (!result.ok) {
+                console.error(
+                    `[SitemapParser] Failed to fetch title of ${url}: ${result.error}`
+                );
+                return null;
+            }
+            const $ = cheerio.load(result.text);
+            const title = cleanText(
+                $("meta[property='og:title']").attr("content") ||
+                    $("title").first().text()
+            );
+            return title || null;
+        } catch (error) {
+            console.error(
+                `[SitemapParser] Failed to read title of ${url}:`,
+                error
+            );
+            return null;
+        }
+    }
+
+    /**
+     * Fetch a sitemap and return its URL entries, descending into sitemap indexes
+     * Failures of the top-level sitemap are recorded in the diagnostics,
+     * failing child sitemaps are only logged
+     */
+    private async collectEntries(
+        url: string,
+        since: Date,
+        depth: number,
+        diagnostics: ParseDiagnostics,
+        fetchOptions: FetchOptions
+    ): Promise<SitemapEntry[]> {
+        const result = await fetchUrl(url, fetchOptions);
+        if (!result.ok) {
+            console.error(
+                `[SitemapParser] Failed to fetch ${url}: ${result.error}`
+            );
+            if (depth === 0) {
+                recordFetch(diagnostics, result);
+                markFailure(
+                    diagnostics,
+                    classifyFetchFailure(result),
+                    result.error
+                );
+            }
+            return [];
+        }
+        if (depth === 0) recordFetch(diagnostics, result);
+
+        const parsed = this.xmlParser.parse(result.text);
+
+        if (parsed.urlset) {
+            return toArray<SitemapUrl>(parsed.urlset.url)
+                .filter((u) => typeof u.loc === "string")
+                .map((u) => ({
+                    loc: u.loc.trim(),
+                    lastmod: parseDate(u.lastmod ?? ""),
+                }));
+        }
+
+        if (parsed.sitemapindex) {
+            if (depth >= MAX_DEPTH) return [];
+
+            // Newest child sitemaps first, skip those not modified since the threshold
+            const children = toArray<SitemapUrl>(parsed.sitemapindex.sitemap)
+                .filter((s) => typeof s.loc === "string")
+                .map((s) => ({
+                    loc: s.loc.trim(),
+                    lastmod: parseDate(s.lastmod ?? ""),
+                }))
+                .filter((s) => isAfterDate(s.lastmod, since))
+                .sort(
+                    (a, b) =>
+                        (b.lastmod?.getTime() ?? 0) -
+                        (a.lastmod?.getTime() ?? 0)
+                )
+                .slice(0, MAX_CHILD_SITEMAPS);
+
+            console.log(
+                `[SitemapParser] Sitemap index with ${children.length} child sitemaps`
+            );
+
+            const entries: SitemapEntry[] = [];
+            for (const child of children) {
+                entries.push(
+                    ...(await this.collectEntries(
+                        child.loc,
+                        since,
+                        depth + 1,
+                        diagnostics,
+                        fetchOptions
+                    ))
+                );
+            }
+            return entries;
+        }
+
+        console.log(`[SitemapParser] Unknown sitemap format: ${url}`);
+        if (depth === 0) {
+            diagnostics.status = "parse_error";
+            diagnostics.message = "Unknown sitemap format";
+        }
+        return [];
+    }
+
+    /**
+     * Check that the URL matches the path pattern and is not the listing page itself
+     */
+    private matchesPath(loc: string, pattern: RegExp): boolean {
+        let path: string;
+        try {
+            path = new URL(loc).pathname;
+        } catch {
+            return false;
+        }
+
+        const match = pattern.exec(path);
+        if (!match) return false;
+
+        const rest = path.slice(match.index + match[0].length);
+        return rest.replace(/\//g, "").length > 0;
+    }
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+// Type definitions for sitemaps
+interface SitemapUrl {
+    loc: string;
+    lastmod?: string;
+}
+
+interface SitemapEntry {
+    loc: string;
+    lastmod: Date | null;
+}
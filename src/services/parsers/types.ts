@@ -1,4 +1,4 @@
-import type { ParsedNewsItem, Tool } from "../../db/types.js";
+import type { FetchBackend, ParsedNewsItem, Tool } from "../../db/types.js";
 
 /**
  * Parser interface that all news source parsers must implement
@@ -14,10 +14,119 @@ export interface NewsParser {
      */
     canParse(url: string): boolean;
 
+    /**
+     * Whether parse() starts by downloading the given URL (default: true)
+     * Lets newContentChecker skip the parse when that page is unchanged
+     */
+    readsSourceUrl?: boolean;
+
+    /**
+     * Backend parse() downloads the source URL with (default: the tool's fetch_backend)
+     * Parsers that always read over HTTP (feeds, sitemaps) set "http", so the
+     * conditional check does not render their page in a browser first
+     */
+    fetchBackend?: FetchBackend;
+
     /**
      * Parse news from the given URL
+     * Never throws - failures are reported in the outcome diagnostics
+     */
+    parse(url: string, tool: Tool, since: Date): Promise<ParseOutcome>;
+
+    /**
+     * Parse one page of a paginated listing (optional)
+     * Same items as parse() plus the URL of the next (older) page, if any
+     */
+    parsePage?(url: string, tool: Tool, since: Date): Promise<ParsedPage>;
+
+    /**
+     * Fill in details the listing lacks for items that turned out to be new (optional)
+     * Updates the items in place; never throws - items keep what they have
      */
-    parse(url: string, tool: Tool, since: Date): Promise<ParsedNewsItem[]>;
+    completeItems?(items: ParsedNewsItem[], tool: Tool): Promise<void>;
+}
+
+/**
+ * Why a parse produced what it did
+ * - ok: the source was read (items may still be empty - no new posts)
+ * - blocked: HTTP 401/403/429/451 (bot protection, rate limit)
+ * - not_found: HTTP 404/410
+ * - timeout: the request or browser render timed out
+ * - fetch_error: other HTTP or network errors (5xx, DNS, TLS)
+ * - parse_error: the response could not be parsed (unknown feed format, bad JSON)
+ * - empty_selectors: the page loaded but no selector/strategy matched anything
+ */
+export type ParseStatus =
+    | "ok"
+    | "blocked"
+    | "not_found"
+    | "timeout"
+    | "fetch_error"
+    | "parse_error"
+    | "empty_selectors";
+
+/**
+ * Why an entry found on the page did not become a news item
+ */
+export type SkipReason =
+    | "older_than_since"
+    | "missing_title"
+    | "missing_link"
+    | "filtered_link"
+    | "duplicate"
+    | "excluded";
+
+/**
+ * Diagnostics attached to every parse result
+ */
+export interface ParseDiagnostics {
+    status: ParseStatus;
+    /** Parser that ran (set by fetchToolNews / newContentChecker) */
+    parser?: string;
+    /** Items on the source before new-content filtering (set by newContentChecker) */
+    itemsFound?: number;
+    /** The page did not change since the last processed fetch - parse skipped */
+    unchanged?: boolean;
+    /** HTTP status of the main request, null when no response arrived */
+    httpStatus: number | null;
+    /** Proxy that served the main request, absent for direct requests */
+    proxy?: string;
+    /** Selector or strategy that produced the items ("rss2", "article", "__NEXT_DATA__"...) */
+    strategy: string | null;
+    /** Error message for failed parses */
+    message?: string;
+    /** Entries dropped on the way, by reason */
+    skipped: Partial<Record<SkipReason, number>>;
+}
+
+/**
+ * Result of NewsParser.parse: items plus how they were obtained
+ */
+export interface ParseOutcome {
+    items: ParsedNewsItem[];
+    diagnostics: ParseDiagnostics;
+}
+
+/**
+ * One page of a listing returned by NewsParser.parsePage
+ */
+export interface ParsedPage extends ParseOutcome {
+    /** Next (older) page from rel=next, /page/N or <atom:link rel="next"> */
+    nextPageUrl: string | null;
+}
+
+/**
+ * Options for fetching a URL
+ */
+export interface FetchOptions {
+    /** Request timeout (default: config.fetchTimeoutMs) */
+    timeoutMs?: number;
+    /** Number of retries on server errors (default: config.fetchRetryCount) */
+    retryCount?: number;
+    /** Extra request headers, merged over the defaults */
+    headers?: Record<string, string>;
+    /** Tool proxy rule (tools.use_proxy): true/false overrides PROXY_DOMAINS */
+    proxy?: boolean;
 }
 
 /**
@@ -28,6 +137,49 @@ export interface FetchResult {
     contentType: string;
     text: string;
     error?: string;
+    /** HTTP status, absent when no response arrived (timeout, DNS...) */
+    status?: number;
+    /** When the response was received - anchor for relative dates */
+    fetchedAt?: Date;
+    /** Response headers (lowercase names) */
+    headers?: Record<string, string>;
+    /** 304 to a conditional request - the body is empty, the cached copy is current */
+    notModified?: boolean;
+    /** Proxy that served the request (without credentials), absent for direct requests */
+    proxy?: string;
+    /** Charset the body was decoded with */
+    charset?: string;
+    /** What the body contains, sniffed from the content type and the body itself */
+    kind?: ContentKind;
+}
+
+/**
+ * Kind of a fetched document (see sniffContent)
+ * - feed: RSS, Atom, RDF or JSON Feed
+ * - sitemap: sitemap.xml urlset or sitemap index
+ * - binary: images, PDFs, archives - never returned as text
+ */
+export type ContentKind =
+    | "html"
+    | "feed"
+    | "sitemap"
+    | "json"
+    | "xml"
+    | "text"
+    | "binary";
+
+/**
+ * Backend that downloads pages for parsers
+ * Chosen per tool via tools.fetch_backend (see getFetcher)
+ */
+export interface Fetcher {
+    /** Backend name for logging */
+    name: string;
+
+    /**
+     * Fetch a URL and return its body (for browser backends: the rendered DOM)
+     */
+    fetch(url: string, options?: FetchOptions): Promise<FetchResult>;
 }
 
 /**
@@ -38,7 +190,7 @@ export const DATE_PATTERNS = {
     ISO: /\d{4}-\d{2}-\d{2}/,
     // US format: January 15, 2024 or Jan 15, 2024
     US_LONG:
-        /(?:January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},?\s+\d{4}/i,
+        /\b(?:January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},?\s+\d{4}/i,
     // EU format: 15 January 2024
     EU_LONG:
         /\d{1,2}\s+(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{4}/i,
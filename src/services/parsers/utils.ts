@@ -1,6 +1,19 @@
-import { HttpsProxyAgent } from "https-proxy-agent";
 import { config } from "../../config/env.js";
-import type { FetchResult } from "./types.js";
+import type { FetchOptions, FetchResult } from "./types.js";
+import { replayFixture, saveFixture } from "./httpFixtures.js";
+import { takePrefetched } from "./httpCache.js";
+import { decodeBody, readBody, sniffContent } from "./responseDecoder.js";
+import { pickProxy, proxyPool } from "./proxyPool.js";
+import { stripTrackingParams } from "./canonicalUrl.js";
+import type { ProxyEntry } from "./proxyPool.js";
+import {
+    backoffDelay,
+    MAX_RETRY_AFTER_MS,
+    parseRetryAfter,
+    requestScheduler,
+} from "./requestScheduler.js";
+import { extractDate } from "./dateParser.js";
+import type { DateParseOptions } from "./dateParser.js";
 
 /**
  * User agents for rotation to avoid detection
@@ -15,14 +28,18 @@ const USER_AGENTS = [
 /**
  * Get random user agent for request
  */
-function getRandomUserAgent(): string {
+export function getRandomUserAgent(): string {
     return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
 }
 
 /**
- * Create fetch options with optional proxy support
+ * Create fetch options, routed through the given proxy if any
  */
-function createFetchOptions(controller: AbortController): RequestInit {
+function createFetchOptions(
+    controller: AbortController,
+    headers: Record<string, string> = {},
+    proxy: ProxyEntry | null = null
+): RequestInit {
     const options: RequestInit = {
         signal: controller.signal,
         headers: {
@@ -30,55 +47,166 @@ function createFetchOptions(controller: AbortController): RequestInit {
             Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,application/rss+xml,application/atom+xml,*/*;q=0.8",
             "Accept-Language": "en-US,en;q=0.9",
             "Cache-Control": "no-cache",
+            ...headers,
         },
     };
 
-    // Add proxy if enabled
-    if (config.proxyEnabled && config.proxyUrl) {
-        const agent = new HttpsProxyAgent(config.proxyUrl);
-        // @ts-expect-error - agent is valid for node-fetch
-        options.agent = agent;
+    // Node's fetch is undici: a proxy is set through its dispatcher
+    if (proxy) {
+        Object.assign(options, { dispatcher: proxy.dispatcher });
     }
 
     return options;
 }
 
 /**
- * Delay helper for retry logic
+ * Statuses whose Retry-After header is honored
  */
-function delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Record a request that failed without a response, so replay fails the same way
+ */
+async function recordNetworkError(url: string, error: string): Promise<void> {
+    await saveFixture({
+        url,
+        status: 0,
+        statusText: "",
+        headers: {},
+        body: "",
+        error,
+    });
 }
 
 /**
  * Fetch URL with proper error handling, timeout, proxy support, and retry logic
+ * Every attempt goes through the request scheduler (one request per host,
+ * FETCH_HOST_INTERVAL_MS between them); retries wait for Retry-After on
+ * 429/503 or a jittered exponential backoff.
+ * Proxied hosts (see shouldUseProxy) take the next proxy of the pool on
+ * every attempt; network errors, timeouts and 407 count against the proxy.
+ * Bodies are decoded in their declared charset (BOM, header, <meta>), capped
+ * at FETCH_MAX_BODY_BYTES and sniffed into a ContentKind; binary bodies fail.
+ * FETCH_MODE=record saves every final response to the fixtures directory,
+ * FETCH_MODE=replay serves them back instead of hitting the network
  */
 export async function fetchUrl(
     url: string,
-    timeoutMs: number = config.fetchTimeoutMs,
-    retryCount: number = config.fetchRetryCount
+    options: FetchOptions = {}
 ): Promise<FetchResult> {
+    // Page already downloaded by a conditional check (see withPrefetched)
+    const ready = takePrefetched("http", url);
+    if (ready) return ready;
+
+    if (config.fetchMode === "replay") {
+        return replayFixture(url);
+    }
+
+    const {
+        timeoutMs = config.fetchTimeoutMs,
+        retryCount = config.fetchRetryCount,
+        headers,
+        proxy: proxyRule,
+    } = options;
+    const isRecording = config.fetchMode === "record";
     let lastError = "";
+    let lastStatus: number | undefined;
+    let proxy: ProxyEntry | null = null;
 
     for (let attempt = 0; attempt <= retryCount; attempt++) {
+        proxy = pickProxy(url, proxyRule);
         try {
             if (attempt > 0) {
                 console.log(
                     `[fetchUrl] Retry ${attempt}/${retryCount} for ${url}`
                 );
-                await delay(1000 * attempt); // Exponential backoff
             }
 
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-            const options = createFetchOptions(controller);
+            const { response, body } = await requestScheduler.schedule(
+                url,
+                async () => {
+                    const controller = new AbortController();
+                    const timeoutId = setTimeout(
+                        () => controller.abort(),
+                        timeoutMs
+                    );
+                    try {
+                        const response = await fetch(
+                            url,
+                            createFetchOptions(controller, headers, proxy)
+                        );
+                        return {
+                            response,
+                            body: await readBody(
+                                response,
+                                config.fetchMaxBodyBytes
+                            ),
+                        };
+                    } finally {
+                        clearTimeout(timeoutId);
+                    }
+                }
+            );
+
+            if (proxy) {
+                // 407: the proxy rejected its credentials
+                if (response.status === 407) {
+                    proxyPool.reportFailure(proxy);
+                } else {
+                    proxyPool.reportSuccess(proxy);
+                }
+            }
+
+            const contentType = response.headers.get("content-type") || "";
+            const responseHeaders = Object.fromEntries(
+                response.headers.entries()
+            );
+
+            // Too large to be a news page - retrying would not help
+            if (!body) {
+                lastError = `Response body exceeds ${config.fetchMaxBodyBytes} bytes`;
+                if (isRecording) {
+                    await recordNetworkError(url, lastError);
+                }
+                return {
+                    ok: false,
+                    contentType,
+                    text: "",
+                    error: lastError,
+                    status: response.status,
+                    proxy: proxy?.label,
+                };
+            }
+
+            const { text, charset } = decodeBody(body, contentType);
 
-            const response = await fetch(url, options);
+            if (isRecording) {
+                await saveFixture({
+                    url,
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: responseHeaders,
+                    body: text,
+                });
+            }
 
-            clearTimeout(timeoutId);
+            // Answer to If-None-Match / If-Modified-Since
+            if (response.status === 304) {
+                return {
+                    ok: true,
+                    contentType,
+                    text: "",
+                    status: response.status,
+                    fetchedAt: new Date(),
+                    headers: responseHeaders,
+                    notModified: true,
+                    proxy: proxy?.label,
+                };
+            }
 
             if (!response.ok) {
                 lastError = `HTTP ${response.status}: ${response.statusText}`;
+                lastStatus = response.status;
 
                 // Don't retry on client errors (except 429 rate limit)
                 if (
@@ -91,79 +219,105 @@ export async function fetchUrl(
                         contentType: "",
                         text: "",
                         error: lastError,
+                        status: lastStatus,
+                        proxy: proxy?.label,
                     };
                 }
+
+                const retryAfter = RETRY_AFTER_STATUSES.includes(
+                    response.status
+                )
+                    ? parseRetryAfter(response.headers.get("retry-after"))
+                    : null;
+                if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+                    lastError += ` (Retry-After ${Math.round(retryAfter / 1000)}s)`;
+                    break;
+                }
+
+                // Later requests to this host wait as well, not only the retry
+                requestScheduler.delayHost(
+                    url,
+                    retryAfter ?? backoffDelay(attempt + 1)
+                );
                 continue; // Retry on server errors and rate limits
             }
 
-            const contentType = response.headers.get("content-type") || "";
-            const text = await response.text();
+            // Images, PDFs and archives are never news pages
+            const kind = sniffContent(contentType, text);
+            if (kind === "binary") {
+                return {
+                    ok: false,
+                    contentType,
+                    text: "",
+                    error: `Binary content (${contentType || "unknown type"})`,
+                    status: response.status,
+                    proxy: proxy?.label,
+                    kind,
+                };
+            }
 
             return {
                 ok: true,
                 contentType,
                 text,
+                status: response.status,
+                fetchedAt: new Date(),
+                headers: responseHeaders,
+                proxy: proxy?.label,
+                charset,
+                kind,
             };
         } catch (error) {
             lastError = error instanceof Error ? error.message : String(error);
+            lastStatus = undefined;
+            if (proxy) {
+                proxyPool.reportFailure(proxy);
+            }
 
             // Don't retry on abort (timeout)
             if (lastError.includes("abort")) {
+                lastError = `Timeout after ${timeoutMs}ms`;
+                if (isRecording) {
+                    await recordNetworkError(url, lastError);
+                }
                 return {
                     ok: false,
                     contentType: "",
                     text: "",
-                    error: `Timeout after ${timeoutMs}ms`,
+                    error: lastError,
+                    proxy: proxy?.label,
                 };
             }
+
+            requestScheduler.delayHost(url, backoffDelay(attempt + 1));
         }
     }
 
+    if (isRecording && !lastError.startsWith("HTTP ")) {
+        await recordNetworkError(url, lastError);
+    }
+
     return {
         ok: false,
         contentType: "",
         text: "",
         error: lastError,
+        status: lastStatus,
+        proxy: proxy?.label,
     };
 }
 
 /**
  * Parse a date string into a Date object
- * Handles various common formats
+ * Handles ISO/RFC dates, relative dates and month names in several
+ * languages (see extractDate for the confidence of the result)
  */
-export function parseDate(dateStr: string): Date | null {
+export function parseDate(
+    dateStr: string,
+    options: DateParseOptions = {}
+): Date | null {
     if (!dateStr) return null;
-
-    // Clean up the string
-    const cleaned = dateStr.trim();
-
-    // Try native Date parsing first
-    const date = new Date(cleaned);
-    if (!isNaN(date.getTime())) {
-        return date;
-    }
-
-    // Try common patterns
-    const patterns = [
-        // ISO format
-        /(\d{4})-(\d{2})-(\d{2})/,
-        // US format with comma
-        /(\w+)\s+(\d{1,2}),?\s+(\d{4})/,
-        // EU format
-        /(\d{1,2})\s+(\w+)\s+(\d{4})/,
-    ];
-
-    for (const pattern of patterns) {
-        const match = cleaned.match(pattern);
-        if (match) {
-            const parsed = new Date(cleaned);
-            if (!isNaN(parsed.getTime())) {
-                return parsed;
-            }
-        }
-    }
-
-    return null;
+    return extractDate(dateStr, options)?.date ?? null;
 }
 
 /**
@@ -173,6 +327,29 @@ export function cleanText(text: string): string {
     return text.replace(/\s+/g, " ").replace(/\n+/g, " ").trim();
 }
 
+/**
+ * Turn the last URL path segment into a readable title
+ * Stand-in for items listed without one (sitemaps) when the page title
+ * cannot be read
+ */
+export function titleFromUrl(url: string): string {
+    let path: string;
+    try {
+        path = new URL(url).pathname;
+    } catch {
+        return url;
+    }
+    const segments = path.split("/").filter(Boolean);
+    let slug = segments[segments.length - 1] ?? url;
+    try {
+        slug = decodeURIComponent(slug);
+    } catch {
+        // Malformed percent-encoding: keep the raw segment
+    }
+    const words = slug.replace(/\.\w+$/, "").replace(/[-_]+/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
 /**
  * Create a snippet from content (first N characters)
  */
@@ -192,25 +369,13 @@ export function createSnippet(
 
 /**
  * Normalize URL (ensure absolute, remove tracking params)
+ * Item URLs are compared through canonicalizeUrl
  */
 export function normalizeUrl(url: string, baseUrl: string): string {
     try {
         // Handle relative URLs
         const absoluteUrl = new URL(url, baseUrl);
-
-        // Remove common tracking parameters
-        const trackingParams = [
-            "utm_source",
-            "utm_medium",
-            "utm_campaign",
-            "utm_content",
-            "utm_term",
-            "ref",
-            "source",
-        ];
-        trackingParams.forEach((param) =>
-            absoluteUrl.searchParams.delete(param)
-        );
+        stripTrackingParams(absoluteUrl);
 
         return absoluteUrl.toString();
     } catch {
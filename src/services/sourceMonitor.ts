@@ -0,0 +1,235 @@
+/**
+ * Source Monitor Service
+ * Reports broken sources to the admin Telegram chat based on the fetch history
+ */
+
+import { config } from "../config/env.js";
+import { getSourceFetchRuns } from "../db/queries/sourceFetchRuns.js";
+import {
+    getOpenSourceAlerts,
+    openSourceAlerts,
+    closeSourceAlerts,
+} from "../db/queries/sourceAlerts.js";
+import { sendTelegramMessage } from "./telegramPublisher.js";
+import { getDaysAgo } from "../utils/dates.js";
+import type {
+    SourceAlert,
+    SourceAlertReason,
+    SourceFetchRun,
+    Tool,
+} from "../db/types.js";
+
+/**
+ * Fetch history considered when looking for a previously productive run
+ */
+const HISTORY_DAYS = 30;
+
+/**
+ * Telegram rejects longer messages
+ */
+const MAX_MESSAGE_LENGTH = 4000;
+
+/**
+ * Problem found in the recent runs of a source
+ */
+export interface SourceIssue {
+    reason: SourceAlertReason;
+    message: string;
+}
+
+/**
+ * Result of an alerting pass
+ */
+export interface SourceAlertsResult {
+    alerted: number;
+    recovered: number;
+}
+
+/**
+ * Look for a problem in the runs of one source (newest first)
+ * - failing: the last `threshold` runs all failed
+ * - zero_items: the last `threshold` parsed runs succeeded with no items
+ *   although an earlier run in the history returned some (runs that skipped
+ *   an unchanged page are not counted)
+ */
+export function detectSourceIssue(
+    runs: SourceFetchRun[],
+    threshold: number
+): SourceIssue | null {
+    const recent = runs.slice(0, threshold);
+    if (recent.length === 0 || recent.length < threshold) return null;
+
+    if (recent.every((run) => run.status !== "ok")) {
+        const streak = countStreak(runs, (run) => run.status !== "ok");
+        const latest = runs[0];
+        const http = latest.http_status ? ` (HTTP ${latest.http_status})` : "";
+        const error = latest.error ? ` - ${latest.error}` : "";
+        return {
+            reason: "failing",
+            message: `failing for ${streak} runs: ${latest.status}${http}${error}`,
+        };
+    }
+
+    const parsed = runs.filter((run) => !run.unchanged);
+    const isEmpty = (run: SourceFetchRun) =>
+        run.status === "ok" && run.item_count === 0;
+    if (
+        parsed.length >= threshold &&
+        parsed.slice(0, threshold).every(isEmpty)
+    ) {
+        const streak = countStreak(parsed, isEmpty);
+        const productive = parsed
+            .slice(streak)
+            .find((run) => run.item_count > 0);
+        if (productive) {
+            return {
+                reason: "zero_items",
+                message: `0 items for ${streak} runs, last productive run had ${productive.item_count} (${productive.started_at.substring(0, 10)})`,
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Whether the latest run clears an open alert
+ * Failing sources recover on any successful run, empty sources only once
+ * they return items again
+ */
+function hasRecovered(alert: SourceAlert, latest: SourceFetchRun): boolean {
+    if (latest.status !== "ok") return false;
+    return alert.reason === "failing" || latest.item_count > 0;
+}
+
+function countStreak(
+    runs: SourceFetchRun[],
+    predicate: (run: SourceFetchRun) => boolean
+): number {
+    const index = runs.findIndex((run) => !predicate(run));
+    return index === -1 ? runs.length : index;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+}
+
+/**
+ * Check every tool's recent runs and notify TELEGRAM_ADMIN_CHAT_ID about
+ * newly broken and recovered sources
+ *
+ * An alert is sent once per source and reason: while it stays open
+ * (source_alerts) further failures are not reported again. Alert state is
+ * saved only after the message went out, so a failed send is retried next run
+ *
+ * @param tools Tools to check
+ * @returns Number of alerts and recovery notices sent
+ * @throws Error if the history can't be read or the message can't be sent
+ */
+export async function processSourceAlerts(
+    tools: Tool[]
+): Promise<SourceAlertsResult> {
+    const { telegramAdminChatId, alertFailureThreshold } = config;
+    if (!telegramAdminChatId) {
+        console.log(
+            "[sourceMonitor] TELEGRAM_ADMIN_CHAT_ID is not configured, skipping alerts"
+        );
+        return { alerted: 0, recovered: 0 };
+    }
+
+    const [runs, openAlerts] = await Promise.all([
+        getSourceFetchRuns(getDaysAgo(HISTORY_DAYS).toISOString()),
+        getOpenSourceAlerts(),
+    ]);
+    const alertsByTool = new Map(
+        openAlerts.map((alert) => [alert.tool_id, alert])
+    );
+
+    const newAlerts: Omit<SourceAlert, "opened_at">[] = [];
+    const recoveredTools: string[] = [];
+    const alertLines: string[] = [];
+    const recoveryLines: string[] = [];
+
+    for (const tool of tools) {
+        const toolRuns = runs.filter((run) => run.tool_id === tool.id);
+        if (toolRuns.length === 0) continue;
+
+        const issue = detectSourceIssue(toolRuns, alertFailureThreshold);
+        const openAlert = alertsByTool.get(tool.id);
+
+        if (issue && issue.reason !== openAlert?.reason) {
+            newAlerts.push({
+                tool_id: tool.id,
+                reason: issue.reason,
+                message: issue.message,
+            });
+            const icon = issue.reason === "failing" ? "❌" : "📉";
+            alertLines.push(
+                `${icon} <b>${escapeHtml(tool.name)}</b>: ${escapeHtml(issue.message)}`
+            );
+        } else if (
+            !issue &&
+            openAlert &&
+            hasRecovered(openAlert, toolRuns[0])
+        ) {
+            recoveredTools.push(tool.id);
+            recoveryLines.push(
+                `✅ <b>${escapeHtml(tool.name)}</b> works again (${toolRuns[0].item_count} items)`
+            );
+        }
+    }
+
+    if (newAlerts.length === 0 && recoveredTools.length === 0) {
+        console.log("[sourceMonitor] No source alerts to send");
+        return { alerted: 0, recovered: 0 };
+    }
+
+    const text = buildAlertMessage(alertLines, recoveryLines);
+    const response = await sendTelegramMessage({
+        chatId: telegramAdminChatId,
+        text,
+        parseMode: "HTML",
+    });
+    if (!response.ok) {
+        throw new Error(
+            `Failed to send source alerts: ${response.description ?? "unknown error"}`
+        );
+    }
+
+    await openSourceAlerts(newAlerts);
+    await closeSourceAlerts(recoveredTools);
+
+    console.log(
+        `[sourceMonitor] Sent ${newAlerts.length} alerts and ${recoveredTools.length} recovery notices`
+    );
+    return { alerted: newAlerts.length, recovered: recoveredTools.length };
+}
+
+/**
+ * One admin message with all alerts and recoveries of the run,
+ * cut to Telegram's length limit
+ */
+function buildAlertMessage(
+    alertLines: string[],
+    recoveryLines: string[]
+): string {
+    const lines = ["🩺 <b>Source health</b>", ""];
+    if (alertLines.length > 0) {
+        lines.push(...alertLines, "");
+    }
+    lines.push(...recoveryLines);
+
+    let text = "";
+    for (let i = 0; i < lines.length; i++) {
+        const next = `${text}${lines[i]}\n`;
+        if (next.length > MAX_MESSAGE_LENGTH) {
+            const rest = lines.slice(i).filter(Boolean).length;
+            return `${text}… and ${rest} more`;
+        }
+        text = next;
+    }
+    return text.trim();
+}
@@ -17,7 +17,7 @@ export interface TelegramPublishResult {
 /**
  * Telegram message options
  */
-interface SendMessageOptions {
+export interface SendMessageOptions {
     chatId: string;
     text: string;
     parseMode?: "Markdown" | "MarkdownV2" | "HTML";
@@ -136,7 +136,7 @@ function splitMessage(
 /**
  * Send a message to Telegram
  */
-async function sendTelegramMessage(
+export async function sendTelegramMessage(
     options: SendMessageOptions
 ): Promise<TelegramResponse> {
     const { telegramBotToken } = config;
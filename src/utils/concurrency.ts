@@ -0,0 +1,26 @@
+/**
+ * Map over items with at most `limit` calls in flight
+ * Results keep the input order; a limit that is not a positive number
+ * runs one call at a time
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const safeLimit = Number.isFinite(limit) ? limit : 1;
+    const workerCount = Math.max(1, Math.min(safeLimit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return results;
+}
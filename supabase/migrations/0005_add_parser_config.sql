@@ -0,0 +1,21 @@
+-- Migration: 0005_add_parser_config.sql
+-- Description: Declarative, per-tool parser configuration
+-- Created: 2025
+
+-- Selector spec for the configurable HTML parser (and other per-tool parser options)
+-- Example:
+-- {
+--   "selectors": {
+--     "container": "article",
+--     "title": "h2, h3",
+--     "link": "a",
+--     "date": "time",
+--     "excerpt": "p",
+--     "linkInclude": "/blog/",
+--     "dateFormat": "MMMM D, YYYY",
+--     "limit": 20
+--   }
+-- }
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS parser_config JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN tools.parser_config IS 'Declarative parser config (CSS selectors etc.). NULL means the parser is chosen by news_url';
@@ -0,0 +1,9 @@
+-- Migration: 0006_add_discovered_feed_url.sql
+-- Description: Remember feeds found via <link rel="alternate"> autodiscovery
+-- Created: 2025
+
+-- When the HTML parser finds an RSS/Atom/JSON feed on the news page,
+-- it is stored here and used instead of news_url on the next run
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS feed_url TEXT;
+
+COMMENT ON COLUMN tools.feed_url IS 'Feed URL discovered on news_url page - preferred over news_url when set';
@@ -0,0 +1,10 @@
+-- Migration: 0007_add_fetch_backend.sql
+-- Description: Per-tool fetch backend (plain HTTP or headless browser)
+-- Created: 2025
+
+-- 'http'    - plain HTTP request (default)
+-- 'browser' - render in headless Chromium (SPA and Cloudflare-protected sites)
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS fetch_backend TEXT NOT NULL DEFAULT 'http'
+    CHECK (fetch_backend IN ('http', 'browser'));
+
+COMMENT ON COLUMN tools.fetch_backend IS 'How news pages are downloaded: http (default) or browser (headless Chromium)';
@@ -0,0 +1,10 @@
+-- Migration: 0008_add_published_at_confidence.sql
+-- Description: How much the publish date of a news item can be trusted
+-- Created: 2025
+
+-- 1    - explicit date (feed, <time datetime>, article meta)
+-- < 1  - inferred: relative ("3 days ago"), missing year, taken from the URL path
+-- NULL - no publish date
+ALTER TABLE news_items ADD COLUMN IF NOT EXISTS published_at_confidence REAL;
+
+COMMENT ON COLUMN news_items.published_at_confidence IS 'Confidence of published_at: 1 = explicit, lower = inferred (relative date, missing year, URL path)';
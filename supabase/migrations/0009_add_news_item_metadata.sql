@@ -0,0 +1,11 @@
+-- Migration: 0009_add_news_item_metadata.sql
+-- Description: Feed metadata on news items (guid, author, image)
+-- Created: 2025
+
+ALTER TABLE news_items ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE news_items ADD COLUMN IF NOT EXISTS author TEXT;
+ALTER TABLE news_items ADD COLUMN IF NOT EXISTS image_url TEXT;
+
+COMMENT ON COLUMN news_items.external_id IS 'Stable id from the source (RSS guid, Atom id, JSON Feed id); hash is built from it when present';
+COMMENT ON COLUMN news_items.author IS 'Author from the feed (dc:creator, author)';
+COMMENT ON COLUMN news_items.image_url IS 'Image from the feed (media:thumbnail, media:content, image enclosure)';
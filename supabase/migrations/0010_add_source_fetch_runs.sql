@@ -0,0 +1,27 @@
+-- Migration: 0010_add_source_fetch_runs.sql
+-- Description: Per-tool fetch history for parser health reports
+-- Created: 2025
+
+-- ============================================
+-- Table: source_fetch_runs
+-- One row per tool per pipeline run
+-- ============================================
+CREATE TABLE IF NOT EXISTS source_fetch_runs (
+    id BIGSERIAL PRIMARY KEY,
+    run_id TEXT NOT NULL,                         -- Groups the rows of one pipeline run
+    tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+    parser TEXT,                                  -- Parser name, e.g. 'RSS Parser'
+    status TEXT NOT NULL,                         -- 'ok', 'blocked', 'not_found', 'timeout', 'fetch_error', 'parse_error', 'empty_selectors', 'error'
+    http_status INT,                              -- HTTP status of the main request
+    duration_ms INT NOT NULL,
+    item_count INT NOT NULL DEFAULT 0,            -- Items returned by the parser
+    new_item_count INT NOT NULL DEFAULT 0,        -- Items actually inserted (not duplicates)
+    error TEXT,
+    started_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_fetch_runs_tool_started ON source_fetch_runs(tool_id, started_at DESC);
+
+COMMENT ON COLUMN source_fetch_runs.status IS 'Parse status from diagnostics, or error for unexpected exceptions';
+COMMENT ON COLUMN source_fetch_runs.new_item_count IS 'Items of this run that were not already in news_items';
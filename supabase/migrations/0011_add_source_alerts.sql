@@ -0,0 +1,17 @@
+-- Migration: 0011_add_source_alerts.sql
+-- Description: Open broken-source alerts (deduplication and recovery notices)
+-- Created: 2025
+
+-- ============================================
+-- Table: source_alerts
+-- One row per tool with an alert sent to the admin chat;
+-- the row is deleted when the source recovers
+-- ============================================
+CREATE TABLE IF NOT EXISTS source_alerts (
+    tool_id TEXT PRIMARY KEY REFERENCES tools(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,                         -- 'failing' or 'zero_items'
+    message TEXT,                                 -- Summary sent with the alert
+    opened_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN source_alerts.reason IS 'failing: consecutive failed runs; zero_items: a productive source returns nothing';
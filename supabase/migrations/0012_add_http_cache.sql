@@ -0,0 +1,22 @@
+-- Migration: 0012_add_http_cache.sql
+-- Description: HTTP validators per news URL for conditional requests
+-- Created: 2025
+
+-- ============================================
+-- Table: http_cache
+-- Validators and body hash of the last processed fetch of a news page
+-- ============================================
+CREATE TABLE IF NOT EXISTS http_cache (
+    url TEXT PRIMARY KEY,
+    etag TEXT,                                    -- Sent back as If-None-Match
+    last_modified TEXT,                           -- Sent back as If-Modified-Since
+    content_hash TEXT,                            -- SHA-256 of the body, for servers without validators
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE http_cache IS 'Saved only after the page was parsed successfully, so a failed run fetches it again';
+
+-- Runs that skipped parsing because the page did not change
+ALTER TABLE source_fetch_runs ADD COLUMN IF NOT EXISTS unchanged BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN source_fetch_runs.unchanged IS 'Page not modified since the last processed fetch - parse skipped, item counts are 0';
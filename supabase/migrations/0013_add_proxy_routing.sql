@@ -0,0 +1,15 @@
+-- Migration: 0013_add_proxy_routing.sql
+-- Description: Per-tool proxy rule and the proxy that served each fetch run
+-- Created: 2025
+
+-- NULL  - follow PROXY_DOMAINS (default)
+-- TRUE  - always fetch through the proxy pool
+-- FALSE - never use a proxy
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS use_proxy BOOLEAN DEFAULT NULL;
+
+COMMENT ON COLUMN tools.use_proxy IS 'Proxy rule: NULL follows PROXY_DOMAINS, TRUE always proxies, FALSE never does';
+
+-- Proxy of the main request, without credentials
+ALTER TABLE source_fetch_runs ADD COLUMN IF NOT EXISTS proxy TEXT;
+
+COMMENT ON COLUMN source_fetch_runs.proxy IS 'Proxy that served the main request (NULL for direct requests)';
@@ -0,0 +1,8 @@
+-- Migration: 0014_add_tool_deferred_at.sql
+-- Description: Tools a pipeline run had no time for go first on the next run
+-- Created: 2025
+
+-- Set when the run deadline passed before the tool was fetched, cleared once it is
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS deferred_at TIMESTAMPTZ DEFAULT NULL;
+
+COMMENT ON COLUMN tools.deferred_at IS 'Skipped by a run that hit its deadline - fetched first next run (oldest first)';
@@ -0,0 +1,18 @@
+-- Migration: 0015_add_tool_seen_items.sql
+-- Description: Per-tool set of seen items for new-content detection
+-- Created: 2025
+
+-- ============================================
+-- Table: tool_seen_items
+-- Every item listed on a tool's news source, by identity; new content is
+-- whatever is listed but not here. tools.last_parsed_url stays for display
+-- ============================================
+CREATE TABLE IF NOT EXISTS tool_seen_items (
+    tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+    item_key TEXT NOT NULL,                       -- Feed guid, or the URL when there is none
+    url TEXT NOT NULL,                            -- Item URL (matches items whose guid appeared later)
+    first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (tool_id, item_key)
+);
+
+COMMENT ON TABLE tool_seen_items IS 'Saved only after the listing was parsed successfully, so a failed run sees the items again';
@@ -0,0 +1,22 @@
+-- Migration: 0016_add_quarantined_news_items.sql
+-- Description: Items held back by the flood guard for manual review
+-- Created: 2025
+
+-- ============================================
+-- Table: quarantined_news_items
+-- "New" items of a tool whose run looked like a site redesign (far more
+-- new items than usual, or mostly old posts). Released into news_items or
+-- discarded with scripts/review-quarantine.ts
+-- ============================================
+CREATE TABLE IF NOT EXISTS quarantined_news_items (
+    id BIGSERIAL PRIMARY KEY,
+    tool_id TEXT NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+    run_id TEXT NOT NULL,                         -- Pipeline run that held the items back
+    reason TEXT NOT NULL,                         -- Why the run was flagged
+    item JSONB NOT NULL,                          -- News item as it would have been inserted
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_news_items_tool ON quarantined_news_items(tool_id, created_at DESC);
+
+COMMENT ON TABLE quarantined_news_items IS 'The tool is re-baselined on quarantine: its listed items are marked seen and not reported again';
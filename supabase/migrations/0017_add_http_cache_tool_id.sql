@@ -0,0 +1,19 @@
+-- Migration: 0017_add_http_cache_tool_id.sql
+-- Description: Keep HTTP validators per tool, not per URL
+-- Created: 2025
+
+-- Validators are saved once a tool processed the page, so tools sharing a
+-- news URL need their own entry: otherwise one tool's save makes the page
+-- look unchanged to the other, which then never parses it
+ALTER TABLE http_cache ADD COLUMN IF NOT EXISTS tool_id TEXT REFERENCES tools(id) ON DELETE CASCADE;
+
+-- Entries saved before cannot be attributed; those pages are fetched in full once
+DELETE FROM http_cache WHERE tool_id IS NULL;
+
+ALTER TABLE http_cache ALTER COLUMN tool_id SET NOT NULL;
+
+ALTER TABLE http_cache DROP CONSTRAINT IF EXISTS http_cache_pkey;
+
+ALTER TABLE http_cache ADD PRIMARY KEY (tool_id, url);
+
+COMMENT ON COLUMN http_cache.tool_id IS 'Tool that processed the fetch - tools sharing a news URL keep separate validators';